@@ -0,0 +1,303 @@
+// Local stand-in for the backend's resumable upload endpoints, so uploads can be exercised offline.
+//
+//   npm run upload-server                      # listens on http://localhost:1080/api
+//   PORT=4000 UPLOAD_DIR=/tmp/x npm run upload-server
+//
+// Point the app at it with `VITE_API_URL=http://localhost:1080/api npm run dev`.
+// Implements the tus 1.0.0 core protocol with the creation extension, plus canned analysis jobs
+// (/videos/analyze-upload and /jobs/:id) that move from queued to analyzing to completed over
+// JOB_SECONDS (default 6), with /jobs/:id/stream streaming the analysis text as Server-Sent Events.
+// Each job is also listed as a report (GET /reports, GET and DELETE /reports/:id), and /health and
+// /videos/test-gemini answer so the app's warm-up check and "Test Connection" work. Everything is
+// kept in memory, so restarting the server empties the report history.
+// Add FAIL_EVERY=3 to drop every third chunk and test resuming.
+
+import http from 'node:http';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import crypto from 'node:crypto';
+
+const PORT = Number(process.env.PORT || 1080);
+const UPLOAD_DIR = process.env.UPLOAD_DIR || path.join(os.tmpdir(), 'fixify-uploads');
+const FAIL_EVERY = Number(process.env.FAIL_EVERY || 0);
+const JOB_SECONDS = Number(process.env.JOB_SECONDS || 6);
+const TUS_VERSION = '1.0.0';
+
+fs.mkdirSync(UPLOAD_DIR, { recursive: true });
+
+const uploads = new Map();
+const jobs = new Map();
+let patchCount = 0;
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, HEAD, PATCH, DELETE, OPTIONS',
+  'Access-Control-Allow-Headers':
+    'Content-Type, Tus-Resumable, Upload-Length, Upload-Metadata, Upload-Offset',
+  'Access-Control-Expose-Headers': 'Location, Tus-Resumable, Upload-Offset, Upload-Length',
+};
+
+const send = (res, status, headers = {}, body) => {
+  res.writeHead(status, { ...corsHeaders, 'Tus-Resumable': TUS_VERSION, ...headers });
+  res.end(body);
+};
+
+const sendJson = (res, status, data) => {
+  send(res, status, { 'Content-Type': 'application/json' }, JSON.stringify(data));
+};
+
+const parseMetadata = (header = '') => {
+  return Object.fromEntries(
+    header
+      .split(',')
+      .filter(Boolean)
+      .map((pair) => {
+        const [key, value = ''] = pair.trim().split(' ');
+        return [key, Buffer.from(value, 'base64').toString('utf8')];
+      })
+  );
+};
+
+const analysisText = (job) =>
+  `## Summary\nStand-in analysis for: ${job.description}\n\n` +
+  `## Likely cause\nThis text comes from the local stand-in server, not a real model.\n`;
+
+const jobSnapshot = (jobId, job) => {
+  const elapsed = (Date.now() - job.createdAt) / 1000;
+  const status = elapsed < JOB_SECONDS / 3 ? 'queued' : elapsed < JOB_SECONDS ? 'analyzing' : 'completed';
+  const data = { jobId, status, updatedAt: new Date().toISOString() };
+
+  if (status === 'completed') {
+    data.result = {
+      originalName: job.upload.metadata.filename || 'video',
+      fileSize: job.upload.length,
+      fileSizeInMB: Number((job.upload.length / (1024 * 1024)).toFixed(2)),
+      analysis: analysisText(job),
+      analysisDate: new Date().toISOString(),
+    };
+  }
+
+  return data;
+};
+
+const reportSnapshot = (jobId, job) => {
+  const snapshot = jobSnapshot(jobId, job);
+  return {
+    id: job.reportId,
+    jobId,
+    description: job.description,
+    status: snapshot.status,
+    fileSize: job.upload.length,
+    submittedAt: new Date(job.submittedAt).toISOString(),
+    analysis: snapshot.result?.analysis,
+    analysisDate: snapshot.result?.analysisDate,
+  };
+};
+
+const findReport = (reportId) => [...jobs.entries()].find(([, job]) => job.reportId === reportId);
+
+const streamJob = (res, jobId, job) => {
+  res.writeHead(200, {
+    ...corsHeaders,
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  });
+
+  const sendEvent = (event, data) => res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  const words = analysisText(job).split(/(?<=\s)/);
+  const interval = Math.max(50, (JOB_SECONDS * 1000 * 2) / 3 / words.length);
+  let sent = 0;
+
+  sendEvent('status', { status: 'queued' });
+  const timer = setInterval(() => {
+    if (sent === 0) sendEvent('status', { status: 'analyzing' });
+    if (sent < words.length) {
+      sendEvent('delta', { text: words[sent] });
+      sent += 1;
+      return;
+    }
+    clearInterval(timer);
+    job.createdAt = Math.min(job.createdAt, Date.now() - JOB_SECONDS * 1000);
+    sendEvent('done', jobSnapshot(jobId, job));
+    res.end();
+  }, interval);
+
+  res.on('close', () => clearInterval(timer));
+};
+
+const readBody = (req) =>
+  new Promise((resolve, reject) => {
+    const chunks = [];
+    req.on('data', (chunk) => chunks.push(chunk));
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+
+const startedAt = Date.now();
+
+const handleRequest = async (req, res) => {
+  const url = new URL(req.url, `http://${req.headers.host}`);
+  const uploadMatch = url.pathname.match(/^\/api\/uploads\/([\w-]+)$/);
+
+  if (req.method === 'OPTIONS') {
+    return send(res, 204);
+  }
+
+  if (req.method === 'POST' && url.pathname === '/api/uploads') {
+    const length = Number(req.headers['upload-length']);
+    if (!Number.isFinite(length) || length < 0) {
+      return send(res, 400, {}, 'Missing or invalid Upload-Length');
+    }
+
+    const id = crypto.randomUUID();
+    const filePath = path.join(UPLOAD_DIR, id);
+    fs.writeFileSync(filePath, '');
+    uploads.set(id, {
+      length,
+      offset: 0,
+      filePath,
+      metadata: parseMetadata(req.headers['upload-metadata']),
+    });
+
+    console.log(`Created upload ${id} (${length} bytes)`);
+    return send(res, 201, { Location: `/api/uploads/${id}` });
+  }
+
+  if (uploadMatch) {
+    const upload = uploads.get(uploadMatch[1]);
+    if (!upload) {
+      return send(res, 404);
+    }
+
+    if (req.method === 'HEAD') {
+      return send(res, 200, {
+        'Upload-Offset': String(upload.offset),
+        'Upload-Length': String(upload.length),
+        'Cache-Control': 'no-store',
+      });
+    }
+
+    if (req.method === 'PATCH') {
+      const offset = Number(req.headers['upload-offset']);
+      if (offset !== upload.offset) {
+        return send(res, 409, { 'Upload-Offset': String(upload.offset) });
+      }
+
+      const body = await readBody(req);
+      patchCount += 1;
+      if (FAIL_EVERY && patchCount % FAIL_EVERY === 0) {
+        console.log(`Simulating a dropped connection at offset ${offset}`);
+        return req.socket.destroy();
+      }
+
+      fs.appendFileSync(upload.filePath, body);
+      upload.offset += body.length;
+      console.log(`Upload ${uploadMatch[1]}: ${upload.offset}/${upload.length}`);
+      return send(res, 204, { 'Upload-Offset': String(upload.offset) });
+    }
+  }
+
+  if (req.method === 'POST' && url.pathname === '/api/videos/analyze-upload') {
+    let request;
+    try {
+      request = JSON.parse((await readBody(req)).toString() || '{}');
+    } catch {
+      return sendJson(res, 400, { success: false, message: 'Request body is not valid JSON' });
+    }
+
+    if (!request || typeof request !== 'object' || typeof request.uploadId !== 'string') {
+      return sendJson(res, 400, { success: false, message: 'Request body must be an object with an uploadId' });
+    }
+
+    const { uploadId, description } = request;
+    const upload = uploads.get(uploadId);
+
+    if (!upload || upload.offset !== upload.length) {
+      return sendJson(res, 400, { success: false, message: 'Upload not found or incomplete' });
+    }
+
+    const jobId = crypto.randomUUID();
+    jobs.set(jobId, { reportId: crypto.randomUUID(), upload, description, createdAt: Date.now(), submittedAt: Date.now() });
+    console.log(`Queued analysis job ${jobId}`);
+
+    return sendJson(res, 202, {
+      success: true,
+      message: 'Analysis job queued',
+      data: { jobId, status: 'queued' },
+    });
+  }
+
+  const jobMatch = url.pathname.match(/^\/api\/jobs\/([\w-]+)(\/stream)?$/);
+  if (req.method === 'GET' && jobMatch) {
+    const [, jobId, stream] = jobMatch;
+    const job = jobs.get(jobId);
+    if (!job) {
+      return sendJson(res, 404, { success: false, message: 'Job not found' });
+    }
+
+    if (stream) {
+      return streamJob(res, jobId, job);
+    }
+
+    return sendJson(res, 200, { success: true, data: jobSnapshot(jobId, job) });
+  }
+
+  if (req.method === 'GET' && url.pathname === '/api/reports') {
+    const reports = [...jobs.entries()]
+      .map(([jobId, job]) => reportSnapshot(jobId, job))
+      .sort((a, b) => b.submittedAt.localeCompare(a.submittedAt));
+    return sendJson(res, 200, { success: true, data: reports });
+  }
+
+  const reportMatch = url.pathname.match(/^\/api\/reports\/([\w-]+)$/);
+  if (reportMatch && (req.method === 'GET' || req.method === 'DELETE')) {
+    const found = findReport(reportMatch[1]);
+    if (!found) {
+      return sendJson(res, 404, { success: false, message: 'Report not found' });
+    }
+
+    if (req.method === 'DELETE') {
+      jobs.delete(found[0]);
+      console.log(`Deleted report ${reportMatch[1]}`);
+      return send(res, 204);
+    }
+
+    return sendJson(res, 200, { success: true, data: reportSnapshot(...found) });
+  }
+
+  if (req.method === 'GET' && url.pathname === '/api/videos/test-gemini') {
+    return sendJson(res, 200, { success: true, message: 'Gemini API is working (local stand-in server)' });
+  }
+
+  // The app derives its health URL from the API base, next to (not under) /api
+  if (req.method === 'GET' && url.pathname === '/health') {
+    return sendJson(res, 200, {
+      status: 'OK',
+      timestamp: new Date().toISOString(),
+      uptime: (Date.now() - startedAt) / 1000,
+    });
+  }
+
+  return send(res, 404);
+};
+
+// One bad request must not take the server down with an unhandled rejection
+const server = http.createServer(async (req, res) => {
+  try {
+    await handleRequest(req, res);
+  } catch (error) {
+    console.error(`${req.method} ${req.url} failed:`, error);
+    if (res.headersSent) {
+      res.destroy();
+    } else {
+      sendJson(res, 500, { success: false, message: 'Internal server error' });
+    }
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Upload stand-in server listening on http://localhost:${PORT}/api`);
+  console.log(`Storing uploads in ${UPLOAD_DIR}`);
+});
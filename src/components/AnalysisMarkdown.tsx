@@ -0,0 +1,95 @@
+import { useEffect, useRef, useState } from 'react';
+import ReactMarkdown, { Components } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import { Check, Copy } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+
+interface AnalysisMarkdownProps {
+  text: string;
+  // Adds a copy button to every section (the text under each # or ## heading)
+  copyable?: boolean;
+  className?: string;
+}
+
+const COPIED_RESET_DELAY = 2000;
+
+// Links in an analysis point away from the app; never let them take over this tab
+const MARKDOWN_COMPONENTS: Components = {
+  a: ({ node: _node, ...props }) => <a {...props} target="_blank" rel="noopener noreferrer" />,
+};
+
+// Splits at # and ## headings, so ### subsections stay with their section; fenced code blocks are left alone
+const splitSections = (markdown: string): string[] => {
+  const sections: string[][] = [[]];
+  let inFence = false;
+
+  for (const line of markdown.split('\n')) {
+    if (/^\s*(```|~~~)/.test(line)) inFence = !inFence;
+    if (!inFence && /^#{1,2}\s/.test(line) && sections[sections.length - 1].some((existing) => existing.trim())) {
+      sections.push([]);
+    }
+    sections[sections.length - 1].push(line);
+  }
+
+  return sections.map((lines) => lines.join('\n').trim()).filter(Boolean);
+};
+
+const AnalysisSection = ({ markdown, copyable }: { markdown: string; copyable: boolean }) => {
+  const [isCopied, setIsCopied] = useState(false);
+  const resetTimeoutRef = useRef<ReturnType<typeof setTimeout>>();
+  const { toast } = useToast();
+
+  useEffect(() => () => clearTimeout(resetTimeoutRef.current), []);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(markdown);
+      setIsCopied(true);
+      clearTimeout(resetTimeoutRef.current);
+      resetTimeoutRef.current = setTimeout(() => setIsCopied(false), COPIED_RESET_DELAY);
+    } catch (error) {
+      console.error('Copy to clipboard failed:', error);
+      toast({
+        title: "Copy Failed",
+        description: "Your browser did not allow access to the clipboard.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <section className={cn('group relative', copyable && 'pr-10')}>
+      {copyable && (
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={handleCopy}
+          className="absolute right-0 top-0 h-7 w-7 p-0 opacity-60 group-hover:opacity-100"
+          aria-label={isCopied ? 'Copied' : 'Copy section'}
+          title={isCopied ? 'Copied' : 'Copy section'}
+        >
+          {isCopied ? <Check className="h-3.5 w-3.5 text-success" /> : <Copy className="h-3.5 w-3.5" />}
+        </Button>
+      )}
+      {/* skipHtml drops raw HTML from the model output instead of rendering it */}
+      <ReactMarkdown remarkPlugins={[remarkGfm]} components={MARKDOWN_COMPONENTS} skipHtml>
+        {markdown}
+      </ReactMarkdown>
+    </section>
+  );
+};
+
+// Renders AI analysis text (Markdown from Gemini) with the typography plugin's prose styles.
+export const AnalysisMarkdown = ({ text, copyable = false, className }: AnalysisMarkdownProps) => {
+  const sections = copyable ? splitSections(text) : [text];
+
+  return (
+    <div className={cn('prose prose-sm max-w-none dark:prose-invert', className)}>
+      {sections.map((section, index) => (
+        <AnalysisSection key={index} markdown={section} copyable={copyable} />
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,37 @@
+import { Settings } from 'lucide-react';
+import { Card, CardContent } from '@/components/ui/card';
+
+interface ConfigErrorScreenProps {
+  issues: string[];
+}
+
+// Rendered instead of the app when the configuration loaded at startup is invalid
+export const ConfigErrorScreen = ({ issues }: ConfigErrorScreenProps) => {
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background px-4">
+      <Card className="w-full max-w-xl">
+        <CardContent className="p-8">
+          <div className="flex items-center mb-4">
+            <Settings className="h-8 w-8 text-destructive mr-3" />
+            <h1 className="text-2xl font-bold text-foreground">App Misconfigured</h1>
+          </div>
+          <p className="text-muted-foreground mb-4">
+            This build of the app cannot start because its configuration is missing or invalid.
+            If you are the site operator, fix the values below and reload.
+          </p>
+          <ul className="space-y-2 mb-6">
+            {issues.map((issue) => (
+              <li key={issue} className="text-sm font-mono bg-muted rounded-md px-3 py-2 break-words">
+                {issue}
+              </li>
+            ))}
+          </ul>
+          <p className="text-xs text-muted-foreground">
+            Settings come from <code>VITE_*</code> environment variables at build time (see <code>.env.example</code>)
+            and can be overridden with a <code>config.json</code> served next to <code>index.html</code>.
+          </p>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
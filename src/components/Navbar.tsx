@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { MouseEvent, useState } from 'react';
 import { Link } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Home, Video, LogOut, User, Menu, X } from 'lucide-react';
@@ -6,17 +6,26 @@ import { Home, Video, LogOut, User, Menu, X } from 'lucide-react';
 interface NavbarProps {
   isAuthenticated: boolean;
   onSignOut: () => void;
+  // Lets a page hold navigation back, e.g. to confirm leaving while an upload is running
+  onNavigate?: (to: string) => void;
 }
 
-export const Navbar = ({ isAuthenticated, onSignOut }: NavbarProps) => {
+export const Navbar = ({ isAuthenticated, onSignOut, onNavigate }: NavbarProps) => {
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
 
+  const handleLinkClick = (to: string) => (event: MouseEvent) => {
+    setIsMobileMenuOpen(false);
+    if (!onNavigate) return;
+    event.preventDefault();
+    onNavigate(to);
+  };
+
   return (
     <nav className="bg-background border-b border-border shadow-sm">
       <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8">
         <div className="flex justify-between items-center h-16">
           {/* Logo */}
-          <Link to="/" className="flex items-center space-x-2">
+          <Link to="/" onClick={handleLinkClick('/')} className="flex items-center space-x-2">
             <Video className="h-8 w-8 text-primary" />
             <span className="text-xl font-bold text-foreground">ResidentialReports</span>
           </Link>
@@ -25,13 +34,13 @@ export const Navbar = ({ isAuthenticated, onSignOut }: NavbarProps) => {
           <div className="hidden md:flex items-center space-x-4">
             {isAuthenticated ? (
               <>
-                <Link to="/">
+                <Link to="/" onClick={handleLinkClick('/')}>
                   <Button variant="ghost" size="sm">
                     <Home className="h-4 w-4 mr-2" />
                     Home
                   </Button>
                 </Link>
-                <Link to="/dashboard">
+                <Link to="/dashboard" onClick={handleLinkClick('/dashboard')}>
                   <Button variant="ghost" size="sm">
                     <Video className="h-4 w-4 mr-2" />
                     Dashboard
@@ -68,13 +77,13 @@ export const Navbar = ({ isAuthenticated, onSignOut }: NavbarProps) => {
             <div className="flex flex-col space-y-2">
               {isAuthenticated ? (
                 <>
-                  <Link to="/" onClick={() => setIsMobileMenuOpen(false)}>
+                  <Link to="/" onClick={handleLinkClick('/')}>
                     <Button variant="ghost" className="w-full justify-start">
                       <Home className="h-4 w-4 mr-2" />
                       Home
                     </Button>
                   </Link>
-                  <Link to="/dashboard" onClick={() => setIsMobileMenuOpen(false)}>
+                  <Link to="/dashboard" onClick={handleLinkClick('/dashboard')}>
                     <Button variant="ghost" className="w-full justify-start">
                       <Video className="h-4 w-4 mr-2" />
                       Dashboard
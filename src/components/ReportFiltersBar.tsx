@@ -0,0 +1,143 @@
+import { format } from 'date-fns';
+import { ArrowUpDown, CalendarIcon, Filter, Search, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Calendar } from '@/components/ui/calendar';
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Input } from '@/components/ui/input';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { hasActiveFilters, REPORT_SORT_OPTIONS, ReportFilters, ReportSort } from '@/lib/reportFilters';
+import { REPORT_STATUS_DETAILS, REPORT_STATUSES } from '@/lib/reportLifecycle';
+
+interface ReportFiltersBarProps {
+  filters: ReportFilters;
+  categories: string[];
+  onChange: (update: Partial<ReportFilters>) => void;
+  onClear: () => void;
+}
+
+// Radix Select items cannot have an empty value
+const ALL_CATEGORIES = 'all';
+
+const formatRange = ({ from, to }: Pick<ReportFilters, 'from' | 'to'>) => {
+  if (from && to) return `${format(from, 'MMM d')} – ${format(to, 'MMM d')}`;
+  if (from) return `From ${format(from, 'MMM d')}`;
+  if (to) return `Until ${format(to, 'MMM d')}`;
+  return 'Any date';
+};
+
+export const ReportFiltersBar = ({ filters, categories, onChange, onClear }: ReportFiltersBarProps) => {
+  const toggleStatus = (status: ReportFilters['statuses'][number], checked: boolean) => {
+    onChange({
+      statuses: checked
+        ? REPORT_STATUSES.filter(existing => existing === status || filters.statuses.includes(existing))
+        : filters.statuses.filter(existing => existing !== status),
+    });
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="relative">
+        <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+        <Input
+          type="search"
+          value={filters.query}
+          onChange={(event) => onChange({ query: event.target.value })}
+          placeholder="Search descriptions and analyses"
+          className="pl-8"
+          aria-label="Search reports"
+        />
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="sm" className="h-8">
+              <Filter className="h-3 w-3 mr-1" />
+              {filters.statuses.length > 0 ? `Status (${filters.statuses.length})` : 'Status'}
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="start">
+            <DropdownMenuLabel>Show reports that are</DropdownMenuLabel>
+            <DropdownMenuSeparator />
+            {REPORT_STATUSES.map(status => (
+              <DropdownMenuCheckboxItem
+                key={status}
+                checked={filters.statuses.includes(status)}
+                onCheckedChange={(checked) => toggleStatus(status, checked)}
+                onSelect={(event) => event.preventDefault()}
+              >
+                {REPORT_STATUS_DETAILS[status].label}
+              </DropdownMenuCheckboxItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+
+        {categories.length > 0 && (
+          <Select
+            value={filters.category ?? ALL_CATEGORIES}
+            onValueChange={(value) => onChange({ category: value === ALL_CATEGORIES ? null : value })}
+          >
+            <SelectTrigger className="h-8 w-auto text-xs" aria-label="Category">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_CATEGORIES}>All categories</SelectItem>
+              {categories.map(category => (
+                <SelectItem key={category} value={category}>
+                  {category}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button variant="outline" size="sm" className="h-8">
+              <CalendarIcon className="h-3 w-3 mr-1" />
+              {formatRange(filters)}
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-auto p-0" align="start">
+            <Calendar
+              mode="range"
+              selected={{ from: filters.from ?? undefined, to: filters.to ?? undefined }}
+              onSelect={(range) => onChange({ from: range?.from ?? null, to: range?.to ?? null })}
+              disabled={{ after: new Date() }}
+              initialFocus
+            />
+          </PopoverContent>
+        </Popover>
+
+        <Select value={filters.sort} onValueChange={(value) => onChange({ sort: value as ReportSort })}>
+          <SelectTrigger className="h-8 w-auto text-xs" aria-label="Sort by">
+            <ArrowUpDown className="h-3 w-3 mr-1" />
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {REPORT_SORT_OPTIONS.map(option => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        {hasActiveFilters(filters) && (
+          <Button variant="ghost" size="sm" className="h-8" onClick={onClear}>
+            <X className="h-3 w-3 mr-1" />
+            Clear
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,19 @@
+import { Badge } from '@/components/ui/badge';
+import { REPORT_STATUS_DETAILS, ReportStatus } from '@/lib/reportLifecycle';
+import { cn } from '@/lib/utils';
+
+interface ReportStatusBadgeProps {
+  status: ReportStatus;
+  className?: string;
+}
+
+export const ReportStatusBadge = ({ status, className }: ReportStatusBadgeProps) => {
+  const { label, icon: Icon, variant } = REPORT_STATUS_DETAILS[status];
+
+  return (
+    <Badge variant={variant} className={className}>
+      <Icon className={cn('h-3 w-3 mr-1', status === 'analyzing' && 'animate-spin')} />
+      {label}
+    </Badge>
+  );
+};
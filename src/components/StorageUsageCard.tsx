@@ -0,0 +1,89 @@
+import { useEffect, useState } from 'react';
+import { HardDrive, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Switch } from '@/components/ui/switch';
+import { formatFileSize } from '@/lib/utils';
+import { reportStore, StorageUsage } from '@/services/reportStore';
+
+interface StorageUsageCardProps {
+  reportCount: number;
+  videoCount: number;
+  onClearVideos: () => Promise<void>;
+}
+
+export const StorageUsageCard = ({ reportCount, videoCount, onClearVideos }: StorageUsageCardProps) => {
+  const [usage, setUsage] = useState<StorageUsage | null>(null);
+  const [keepVideos, setKeepVideos] = useState(() => reportStore.keepVideos);
+  const [isClearing, setIsClearing] = useState(false);
+
+  // Re-estimate whenever something was added or removed
+  useEffect(() => {
+    let isCancelled = false;
+    reportStore
+      .estimateUsage()
+      .then((estimate) => {
+        if (!isCancelled) setUsage(estimate);
+      })
+      .catch((error) => console.error('Storage estimate failed:', error));
+    return () => {
+      isCancelled = true;
+    };
+  }, [reportCount, videoCount, isClearing]);
+
+  const handleKeepVideosChange = (keep: boolean) => {
+    reportStore.keepVideos = keep;
+    setKeepVideos(keep);
+  };
+
+  const handleClearVideos = async () => {
+    setIsClearing(true);
+    try {
+      await onClearVideos();
+    } finally {
+      setIsClearing(false);
+    }
+  };
+
+  const percentage = usage && usage.quotaBytes > 0 ? (usage.usageBytes / usage.quotaBytes) * 100 : 0;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base flex items-center">
+          <HardDrive className="h-4 w-4 mr-2" />
+          Saved on This Device
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <div className="flex items-center justify-between text-xs text-muted-foreground">
+            <span>
+              {reportCount} {reportCount === 1 ? 'report' : 'reports'}, {videoCount} {videoCount === 1 ? 'video' : 'videos'}
+            </span>
+            {usage && (
+              <span>
+                {formatFileSize(usage.usageBytes)} of {formatFileSize(usage.quotaBytes)}
+              </span>
+            )}
+          </div>
+          {usage && <Progress value={Math.max(percentage, usage.usageBytes > 0 ? 1 : 0)} className="h-1.5" />}
+        </div>
+
+        <div className="flex items-center justify-between">
+          <Label htmlFor="keep-videos" className="text-sm">Keep recordings with reports</Label>
+          <Switch id="keep-videos" checked={keepVideos} onCheckedChange={handleKeepVideosChange} />
+        </div>
+
+        {videoCount > 0 && (
+          <Button variant="outline" size="sm" className="w-full" onClick={handleClearVideos} disabled={isClearing}>
+            <Trash2 className="h-3 w-3 mr-1" />
+            Delete Saved Videos
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,37 @@
+import { useEffect, useState } from 'react';
+import { reportStore } from '@/services/reportStore';
+
+interface StoredVideoProps {
+  reportId: string;
+}
+
+// Plays the recording kept on this device for a report, if it is still there.
+export const StoredVideo = ({ reportId }: StoredVideoProps) => {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    let objectUrl: string | null = null;
+    let isCancelled = false;
+
+    reportStore
+      .getVideo(reportId)
+      .then((blob) => {
+        if (!blob || isCancelled) return;
+        objectUrl = URL.createObjectURL(blob);
+        setUrl(objectUrl);
+      })
+      .catch((error) => console.error('Failed to load saved video:', error));
+
+    return () => {
+      isCancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+      setUrl(null);
+    };
+  }, [reportId]);
+
+  if (!url) return null;
+
+  return (
+    <video src={url} controls playsInline preload="metadata" className="w-full max-h-80 rounded-lg bg-black" />
+  );
+};
@@ -0,0 +1,53 @@
+import { AlertTriangle, CheckCircle, Loader2 } from 'lucide-react';
+import { AnalysisMarkdown } from '@/components/AnalysisMarkdown';
+import { Report } from '@/services/api';
+
+interface StreamingAnalysisProps {
+  text: string;
+  state?: Report['analysisStreamState'];
+  preview?: boolean;
+}
+
+// Three clamped lines have no room for headings and lists, so the preview shows the words without the markup
+const toPreviewText = (markdown: string) =>
+  markdown
+    .replace(/^#{1,6}\s+/gm, '')
+    .replace(/^\s*[-*+]\s+/gm, '• ')
+    .replace(/(\*\*|__|\*|`)/g, '');
+
+export const StreamingAnalysis = ({ text, state, preview = false }: StreamingAnalysisProps) => {
+  return (
+    <div className="space-y-2">
+      {preview ? (
+        <p className="text-sm whitespace-pre-wrap line-clamp-3 text-muted-foreground">
+          {toPreviewText(text)}
+          {state === 'streaming' && (
+            <span className="inline-block w-1.5 h-3.5 ml-0.5 align-middle bg-foreground animate-pulse" />
+          )}
+        </p>
+      ) : (
+        // Sections can be copied once the text has stopped changing
+        <AnalysisMarkdown text={text} copyable={state !== 'streaming'} />
+      )}
+
+      {state === 'streaming' && (
+        <div className="flex items-center text-xs text-muted-foreground">
+          <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+          Generating analysis...
+        </div>
+      )}
+      {state === 'aborted' && (
+        <div className="flex items-center text-xs text-muted-foreground">
+          <AlertTriangle className="h-3 w-3 mr-1" />
+          Live updates were interrupted; the full analysis will appear once it is ready.
+        </div>
+      )}
+      {state === 'finished' && !preview && (
+        <div className="flex items-center text-xs text-muted-foreground">
+          <CheckCircle className="h-3 w-3 mr-1" />
+          Analysis finished
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,164 @@
+import { AlertTriangle, ClipboardList, DollarSign, Gauge, Package, Search, ShieldAlert } from 'lucide-react';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Severity, StructuredAnalysis, Urgency } from '@/services/api';
+
+interface StructuredAnalysisCardsProps {
+  analysis: StructuredAnalysis;
+}
+
+const SEVERITY_DETAILS: Record<Severity, { label: string; variant: 'default' | 'secondary' | 'destructive' | 'outline' }> = {
+  low: { label: 'Low', variant: 'outline' },
+  medium: { label: 'Medium', variant: 'secondary' },
+  high: { label: 'High', variant: 'default' },
+  critical: { label: 'Critical', variant: 'destructive' },
+};
+
+const URGENCY_LABELS: Record<Urgency, string> = {
+  routine: 'Routine: fix when convenient',
+  soon: 'Soon: within a week',
+  urgent: 'Urgent: within a day or two',
+  emergency: 'Emergency: act now',
+};
+
+// Reports saved before the currency code was validated may still hold one Intl rejects
+const formatCost = (amount: number, currency: string) => {
+  try {
+    return new Intl.NumberFormat('en-US', { style: 'currency', currency, maximumFractionDigits: 0 }).format(amount);
+  } catch {
+    return `${Math.round(amount)} ${currency}`;
+  }
+};
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+export const StructuredAnalysisCards = ({ analysis }: StructuredAnalysisCardsProps) => {
+  const { category, severity, urgency, trade, probableCause, parts, diySteps, safetyWarnings, costEstimate } = analysis;
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base flex items-center">
+              <Gauge className="h-4 w-4 mr-2" />
+              Assessment
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <dl className="space-y-2 text-sm">
+              <div className="flex justify-between">
+                <dt className="text-muted-foreground">Category</dt>
+                <dd className="font-medium">{category}</dd>
+              </div>
+              <div className="flex justify-between">
+                <dt className="text-muted-foreground">Severity</dt>
+                <dd>
+                  <Badge variant={SEVERITY_DETAILS[severity].variant}>{SEVERITY_DETAILS[severity].label}</Badge>
+                </dd>
+              </div>
+              <div className="flex justify-between gap-4">
+                <dt className="text-muted-foreground">Urgency</dt>
+                <dd className="text-right">{URGENCY_LABELS[urgency]}</dd>
+              </div>
+              <div className="flex justify-between">
+                <dt className="text-muted-foreground">Recommended Trade</dt>
+                <dd className="font-medium">{capitalize(trade)}</dd>
+              </div>
+            </dl>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base flex items-center">
+              <Search className="h-4 w-4 mr-2" />
+              Probable Cause
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <p className="text-sm text-muted-foreground">{probableCause}</p>
+            {costEstimate && (
+              <div className="flex items-center text-sm">
+                <DollarSign className="h-4 w-4 mr-1 text-muted-foreground" />
+                <span className="text-muted-foreground mr-2">Estimated cost:</span>
+                <span className="font-medium">
+                  {formatCost(costEstimate.min, costEstimate.currency)} – {formatCost(costEstimate.max, costEstimate.currency)}
+                </span>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {safetyWarnings.length > 0 && (
+        <Alert variant="destructive">
+          <ShieldAlert className="h-4 w-4" />
+          <AlertDescription>
+            <ul className="list-disc pl-4 space-y-1">
+              {safetyWarnings.map((warning, index) => (
+                <li key={index}>{warning}</li>
+              ))}
+            </ul>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {diySteps.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base flex items-center">
+              <ClipboardList className="h-4 w-4 mr-2" />
+              DIY Steps
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ol className="space-y-3">
+              {diySteps.map((step, index) => (
+                <li key={index} className="flex text-sm">
+                  <span className="flex-shrink-0 w-6 h-6 mr-3 rounded-full bg-muted flex items-center justify-center text-xs font-medium">
+                    {index + 1}
+                  </span>
+                  <div className="space-y-1 pt-0.5">
+                    <p>{step.instruction}</p>
+                    {step.safetyWarning && (
+                      <p className="flex items-center text-xs text-destructive">
+                        <AlertTriangle className="h-3 w-3 mr-1 flex-shrink-0" />
+                        {step.safetyWarning}
+                      </p>
+                    )}
+                  </div>
+                </li>
+              ))}
+            </ol>
+          </CardContent>
+        </Card>
+      )}
+
+      {parts.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base flex items-center">
+              <Package className="h-4 w-4 mr-2" />
+              Parts List
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ul className="divide-y text-sm">
+              {parts.map((part, index) => (
+                <li key={index} className="flex justify-between gap-4 py-2 first:pt-0 last:pb-0">
+                  <div>
+                    <p className="font-medium">{part.name}</p>
+                    {part.notes && <p className="text-xs text-muted-foreground">{part.notes}</p>}
+                  </div>
+                  {part.quantity !== undefined && <span className="text-muted-foreground">× {part.quantity}</span>}
+                </li>
+              ))}
+            </ul>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
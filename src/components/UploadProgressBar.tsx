@@ -0,0 +1,75 @@
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { Pause, Play, X } from 'lucide-react';
+import { formatFileSize } from '@/lib/utils';
+import { UploadStatus } from '@/services/api';
+
+interface UploadProgressBarProps {
+  status: UploadStatus;
+  onPause?: () => void;
+  onResume?: () => void;
+  onCancel?: () => void;
+  compact?: boolean;
+}
+
+export const UploadProgressBar = ({
+  status,
+  onPause,
+  onResume,
+  onCancel,
+  compact = false,
+}: UploadProgressBarProps) => {
+  const { state, progress } = status;
+
+  const label =
+    state === 'analyzing'
+      ? 'Analyzing video...'
+      : state === 'queued'
+        ? 'Queued for analysis...'
+        : state === 'paused'
+          ? 'Upload paused'
+          : state === 'waiting'
+            ? 'Waiting for the analysis service to wake up...'
+            : state === 'converting'
+              ? 'Converting video to MP4...'
+              : state === 'preparing'
+                ? 'Preparing upload...'
+                : 'Uploading...';
+  const buttonClassName = compact ? 'h-6 px-2 text-xs' : '';
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between text-xs text-muted-foreground">
+        <span>{label}</span>
+        <span>
+          {state === 'converting'
+            ? `${progress.percentage}%`
+            : `${formatFileSize(progress.bytesUploaded)} / ${formatFileSize(progress.bytesTotal)} (${progress.percentage}%)`}
+        </span>
+      </div>
+      <Progress value={progress.percentage} className={compact ? 'h-1.5' : 'h-2'} />
+      {(onPause || onResume || onCancel) && (
+        <div className="flex justify-end space-x-2">
+          {state === 'paused' && onResume && (
+            <Button variant="outline" size="sm" onClick={onResume} className={buttonClassName}>
+              <Play className="h-3 w-3 mr-1" />
+              Resume
+            </Button>
+          )}
+          {state === 'uploading' && onPause && (
+            <Button variant="outline" size="sm" onClick={onPause} className={buttonClassName}>
+              <Pause className="h-3 w-3 mr-1" />
+              Pause
+            </Button>
+          )}
+          {onCancel && (
+            <Button variant="ghost" size="sm" onClick={onCancel} className={buttonClassName}>
+              <X className="h-3 w-3 mr-1" />
+              Cancel
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
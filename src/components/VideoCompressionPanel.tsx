@@ -0,0 +1,139 @@
+import { useEffect, useRef, useState } from 'react';
+import { ArrowRight, Minimize2, Undo2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { canCompressVideo, compressVideo, COMPRESSION_PRESETS, CompressionPresetId } from '@/lib/compressVideo';
+import { formatFileSize } from '@/lib/utils';
+
+interface VideoCompressionPanelProps {
+  recording: Blob;
+  compressed: Blob | null;
+  // Receives the compressed video, or null to go back to the original recording
+  onCompressedChange: (compressed: Blob | null) => void;
+  onCompressingChange?: (isCompressing: boolean) => void;
+  disabled?: boolean;
+}
+
+export const VideoCompressionPanel = ({
+  recording,
+  compressed,
+  onCompressedChange,
+  onCompressingChange,
+  disabled = false,
+}: VideoCompressionPanelProps) => {
+  const [presetId, setPresetId] = useState<CompressionPresetId>('balanced');
+  const [progress, setProgress] = useState<number | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+  const { toast } = useToast();
+
+  const preset = COMPRESSION_PRESETS.find(candidate => candidate.id === presetId) ?? COMPRESSION_PRESETS[0];
+  const isCompressing = progress !== null;
+
+  // Stop compressing if the recording is discarded or the recorder unmounts
+  useEffect(() => {
+    return () => controllerRef.current?.abort();
+  }, [recording]);
+
+  if (!canCompressVideo()) return null;
+
+  const handleCompress = async () => {
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setProgress(0);
+    onCompressingChange?.(true);
+
+    try {
+      const result = await compressVideo(recording, preset, {
+        signal: controller.signal,
+        onProgress: setProgress,
+      });
+
+      if (result.size >= recording.size) {
+        onCompressedChange(null);
+        toast({
+          title: "Already Compact",
+          description: "Compressing would not make this recording any smaller, so the original will be uploaded.",
+        });
+        return;
+      }
+
+      onCompressedChange(result);
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      console.error('Video compression failed:', error);
+      toast({
+        title: "Compression Failed",
+        description: "The original recording will be uploaded instead.",
+        variant: "destructive",
+      });
+    } finally {
+      if (controllerRef.current === controller) controllerRef.current = null;
+      setProgress(null);
+      onCompressingChange?.(false);
+    }
+  };
+
+  const savedPercentage = compressed ? Math.round((1 - compressed.size / recording.size) * 100) : 0;
+
+  return (
+    <div className="rounded-lg border p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <Label className="text-sm font-medium">Compress before upload</Label>
+        <span className="text-xs text-muted-foreground">Original: {formatFileSize(recording.size)}</span>
+      </div>
+
+      {compressed ? (
+        <div className="flex items-center justify-between">
+          <div className="flex items-center text-sm">
+            <span className="text-muted-foreground line-through">{formatFileSize(recording.size)}</span>
+            <ArrowRight className="h-3 w-3 mx-2" />
+            <span className="font-medium">{formatFileSize(compressed.size)}</span>
+            <span className="ml-2 text-xs text-success">{savedPercentage}% smaller</span>
+          </div>
+          <Button variant="ghost" size="sm" onClick={() => onCompressedChange(null)} disabled={disabled}>
+            <Undo2 className="h-3 w-3 mr-1" />
+            Use Original
+          </Button>
+        </div>
+      ) : isCompressing ? (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between text-xs text-muted-foreground">
+            <span>Compressing video... {progress}%</span>
+            <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={() => controllerRef.current?.abort()}>
+              <X className="h-3 w-3 mr-1" />
+              Cancel
+            </Button>
+          </div>
+          <Progress value={progress} className="h-1.5" />
+        </div>
+      ) : (
+        <div className="space-y-2">
+          <div className="flex space-x-2">
+            <Select value={presetId} onValueChange={(value) => setPresetId(value as CompressionPresetId)} disabled={disabled}>
+              <SelectTrigger className="flex-1">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {COMPRESSION_PRESETS.map(option => (
+                  <SelectItem key={option.id} value={option.id}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" onClick={handleCompress} disabled={disabled}>
+              <Minimize2 className="h-4 w-4 mr-2" />
+              Compress
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {preset.description}. Compressing takes about as long as the recording.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -3,56 +3,155 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Slider } from '@/components/ui/slider';
 import { 
   Play, 
+  Pause,
   Square, 
   RotateCcw, 
   Upload, 
   Camera, 
   CheckCircle, 
-  AlertCircle 
+  AlertCircle,
+  FlipHorizontal,
+  Flashlight,
+  FlashlightOff,
+  ZoomIn,
+  Mic,
+  SwitchCamera
 } from 'lucide-react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { useToast } from '@/hooks/use-toast';
+import { useRecordingTimer } from '@/hooks/use-recording-timer';
+import { useMediaDevices } from '@/hooks/use-media-devices';
+import { useCameraControls } from '@/hooks/use-camera-controls';
+import { ErrorRecovery, getErrorRecovery } from '@/lib/errorRecovery';
+import { RECORDING_MIME_TYPES } from '@/lib/videoFormat';
+import { formatDuration, formatFileSize } from '@/lib/utils';
+import { UploadProgressBar } from '@/components/UploadProgressBar';
+import { VideoCompressionPanel } from '@/components/VideoCompressionPanel';
+import { RecordingLimits, UploadStatus } from '@/services/api';
+import { UploadCancelledError } from '@/services/errors';
+import { devicePreferences, DevicePreferences, FacingMode } from '@/services/devicePreferences';
 
 interface VideoRecorderProps {
   onVideoSubmit: (videoBlob: Blob, description: string) => Promise<void>;
+  limits: RecordingLimits;
+  uploadStatus?: UploadStatus | null;
+  onPauseUpload?: () => void;
+  onResumeUpload?: () => void;
+  onCancelUpload?: () => void;
 }
 
-export const VideoRecorder = ({ onVideoSubmit }: VideoRecorderProps) => {
+// The countdown to the automatic stop is shown for this long
+const STOP_WARNING_MS = 10 * 1000;
+// Recorded data is collected this often, which keeps the size readout current
+const CHUNK_INTERVAL_MS = 1000;
+
+// Phones default to the back camera, which is usually what is pointed at the problem
+const defaultFacingMode = (): FacingMode =>
+  /Android|iPhone|iPad|iPod|BlackBerry|IEMobile|Opera Mini/i.test(navigator.userAgent) ? 'environment' : 'user';
+
+// Desktop browsers often leave facingMode unset, so fall back to what the camera is called
+const isRearFacing = (facingMode: string | undefined, label: string): boolean =>
+  facingMode ? facingMode === 'environment' : /\b(back|rear|environment)\b/i.test(label);
+
+// Older Safari versions ship MediaRecorder without pause/resume
+const canPauseRecording = () =>
+  typeof MediaRecorder !== 'undefined' && typeof MediaRecorder.prototype.pause === 'function';
+
+export const VideoRecorder = ({
+  onVideoSubmit,
+  limits,
+  uploadStatus,
+  onPauseUpload,
+  onResumeUpload,
+  onCancelUpload,
+}: VideoRecorderProps) => {
   const [isRecording, setIsRecording] = useState(false);
+  const [isPaused, setIsPaused] = useState(false);
+  const [recordedBytes, setRecordedBytes] = useState(0);
   const [recordedVideoUrl, setRecordedVideoUrl] = useState<string | null>(null);
   const [recordedBlob, setRecordedBlob] = useState<Blob | null>(null);
+  // Set when the user compressed the recording; this is what gets submitted
+  const [compressedBlob, setCompressedBlob] = useState<Blob | null>(null);
+  const [isCompressing, setIsCompressing] = useState(false);
   const [description, setDescription] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [hasPermission, setHasPermission] = useState<boolean | null>(null);
+  const [submitError, setSubmitError] = useState<ErrorRecovery | null>(null);
+  const [preferences, setPreferences] = useState<DevicePreferences>(() => devicePreferences.get());
+  // What the browser actually opened, which may differ from the preference
+  const [activeCameraId, setActiveCameraId] = useState<string | null>(null);
+  const [activeMicrophoneId, setActiveMicrophoneId] = useState<string | null>(null);
+  const [activeFacingMode, setActiveFacingMode] = useState<FacingMode | null>(null);
+  const [isRearCamera, setIsRearCamera] = useState(false);
+  const [videoTrack, setVideoTrack] = useState<MediaStreamTrack | null>(null);
 
   const videoRef = useRef<HTMLVideoElement>(null);
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const chunksRef = useRef<Blob[]>([]);
   const streamRef = useRef<MediaStream | null>(null);
+  const cameraRequestRef = useRef(0);
 
   const { toast } = useToast();
+  const {
+    elapsedMs,
+    start: startTimer,
+    pause: pauseTimer,
+    resume: resumeTimer,
+    stop: stopTimer,
+    reset: resetTimer,
+  } = useRecordingTimer();
+  const { cameras, microphones, refresh: refreshDevices } = useMediaDevices();
+  const { isTorchSupported, isTorchOn, toggleTorch, zoomRange, zoom, setZoom } = useCameraControls(videoTrack);
+
+  const stopStream = useCallback(() => {
+    if (streamRef.current) {
+      streamRef.current.getTracks().forEach(track => track.stop());
+      streamRef.current = null;
+    }
+    setVideoTrack(null);
+  }, []);
+
+  // Only the device choices restart the camera, not display preferences such as mirroring
+  const { cameraId, microphoneId, facingMode } = preferences;
 
   const startCamera = useCallback(async () => {
+    // Switching devices quickly can leave an older request resolving last; only the newest one wins
+    const request = ++cameraRequestRef.current;
+    stopStream();
+
     try {
-      // Mobile-optimized camera constraints
-      const isMobile = /Android|iPhone|iPad|iPod|BlackBerry|IEMobile|Opera Mini/i.test(navigator.userAgent);
-      
       const constraints: MediaStreamConstraints = {
         video: {
           width: { ideal: 1280, max: 1920 },
           height: { ideal: 720, max: 1080 },
           aspectRatio: 9/16,
-          // Use back camera on mobile by default
-          facingMode: isMobile ? "environment" : "user"
+          ...(cameraId ? { deviceId: { exact: cameraId } } : { facingMode: facingMode ?? defaultFacingMode() }),
         },
-        audio: true
+        audio: microphoneId ? { deviceId: { exact: microphoneId } } : true
       };
 
       const stream = await navigator.mediaDevices.getUserMedia(constraints);
+
+      if (request !== cameraRequestRef.current) {
+        stream.getTracks().forEach(track => track.stop());
+        return;
+      }
       
       streamRef.current = stream;
       setHasPermission(true);
+
+      const videoTrack = stream.getVideoTracks()[0];
+      const videoSettings = videoTrack?.getSettings();
+      setActiveCameraId(videoSettings?.deviceId ?? null);
+      setActiveFacingMode((videoSettings?.facingMode as FacingMode | undefined) ?? null);
+      setIsRearCamera(isRearFacing(videoSettings?.facingMode, videoTrack?.label ?? ''));
+      setActiveMicrophoneId(stream.getAudioTracks()[0]?.getSettings().deviceId ?? null);
+      // Device labels are only available once access has been granted
+      refreshDevices();
       
       if (videoRef.current) {
         videoRef.current.srcObject = stream;
@@ -64,7 +163,23 @@ export const VideoRecorder = ({ onVideoSubmit }: VideoRecorderProps) => {
           console.log('Auto-play prevented, user interaction required');
         }
       }
+
+      // Some browsers only report torch and zoom capabilities once frames are flowing
+      if (request === cameraRequestRef.current) {
+        setVideoTrack(stream.getVideoTracks()[0] ?? null);
+      }
     } catch (error) {
+      if (request !== cameraRequestRef.current) return;
+
+      // A remembered device that has since been unplugged; forgetting it restarts with the defaults
+      const isMissingDevice = error instanceof DOMException &&
+        (error.name === 'OverconstrainedError' || error.name === 'NotFoundError');
+      if (isMissingDevice && (cameraId || microphoneId)) {
+        console.warn('Saved camera or microphone is unavailable, using the defaults:', error);
+        setPreferences(devicePreferences.update({ cameraId: undefined, microphoneId: undefined }));
+        return;
+      }
+
       console.error('Error accessing camera:', error);
       setHasPermission(false);
       toast({
@@ -73,25 +188,62 @@ export const VideoRecorder = ({ onVideoSubmit }: VideoRecorderProps) => {
         variant: "destructive",
       });
     }
-  }, [toast]);
+  }, [cameraId, microphoneId, facingMode, refreshDevices, stopStream, toast]);
+
+  const selectCamera = useCallback((deviceId: string) => {
+    setPreferences(devicePreferences.update({ cameraId: deviceId }));
+  }, []);
+
+  const selectMicrophone = useCallback((deviceId: string) => {
+    setPreferences(devicePreferences.update({ microphoneId: deviceId }));
+  }, []);
+
+  const handleToggleTorch = useCallback(async () => {
+    if (!(await toggleTorch())) {
+      toast({
+        title: "Flashlight Unavailable",
+        description: "This camera did not turn its light on. Try another camera or add more light.",
+        variant: "destructive",
+      });
+    }
+  }, [toggleTorch, toast]);
+
+  // A front camera preview is mirrored like a mirror would be; a rear camera shows the scene as is
+  const mirrorOverride = activeCameraId ? preferences.mirroredCameras?.[activeCameraId] : undefined;
+  const isMirrored = mirrorOverride ?? !isRearCamera;
+
+  const toggleMirror = useCallback(() => {
+    if (!activeCameraId) return;
+    const next = devicePreferences.update({
+      mirroredCameras: { ...preferences.mirroredCameras, [activeCameraId]: !isMirrored },
+    });
+    setPreferences(next);
+  }, [activeCameraId, isMirrored, preferences.mirroredCameras]);
+
+  // Phones report which way each camera faces; elsewhere flipping steps through the cameras
+  const flipCamera = useCallback(() => {
+    if (activeFacingMode) {
+      setPreferences(devicePreferences.update({
+        cameraId: undefined,
+        facingMode: activeFacingMode === 'user' ? 'environment' : 'user',
+      }));
+      return;
+    }
+
+    const index = cameras.findIndex(camera => camera.deviceId === activeCameraId);
+    const next = cameras[(index + 1) % cameras.length];
+    if (next) selectCamera(next.deviceId);
+  }, [activeFacingMode, activeCameraId, cameras, selectCamera]);
 
   const startRecording = useCallback(() => {
     if (!streamRef.current) return;
 
     chunksRef.current = [];
+    setRecordedBytes(0);
     
     // Debug: Check what formats are supported
     console.log('Checking MediaRecorder support:');
-    const testFormats = [
-      'video/webm;codecs=vp9',
-      'video/webm;codecs=vp8',
-      'video/webm',
-      'video/mp4',
-      'video/ogg;codecs=theora',
-      'video/ogg'
-    ];
-    
-    testFormats.forEach(format => {
+    RECORDING_MIME_TYPES.forEach(format => {
       console.log(`${format}: ${MediaRecorder.isTypeSupported(format)}`);
     });
     
@@ -99,16 +251,7 @@ export const VideoRecorder = ({ onVideoSubmit }: VideoRecorderProps) => {
     const options: MediaRecorderOptions = {};
     
     // Try to find the best supported video format
-    const supportedFormats = [
-      'video/webm;codecs=vp9',
-      'video/webm;codecs=vp8',
-      'video/webm',
-      'video/mp4',
-      'video/ogg;codecs=theora',
-      'video/ogg'
-    ];
-    
-    for (const format of supportedFormats) {
+    for (const format of RECORDING_MIME_TYPES) {
       if (MediaRecorder.isTypeSupported(format)) {
         options.mimeType = format;
         console.log('Using MediaRecorder format:', format);
@@ -128,34 +271,33 @@ export const VideoRecorder = ({ onVideoSubmit }: VideoRecorderProps) => {
       console.log('Data available:', event.data.size, 'bytes, type:', event.data.type);
       if (event.data.size > 0) {
         chunksRef.current.push(event.data);
+        setRecordedBytes(bytes => bytes + event.data.size);
       }
     };
 
     mediaRecorder.onstop = () => {
-      const mimeType = mediaRecorder.mimeType || 'video/webm';
+      // Keep the container the browser actually recorded; ApiService converts it if the backend needs MP4
+      const mimeType = mediaRecorder.mimeType || options.mimeType || 'video/webm';
       const blob = new Blob(chunksRef.current, { type: mimeType });
       
-      // Always create a new blob with video/mp4 type for backend compatibility
-      const finalBlob = new Blob(chunksRef.current, { type: 'video/mp4' });
-      
-      const url = URL.createObjectURL(finalBlob);
+      const url = URL.createObjectURL(blob);
       
       console.log('Video recorded:', { 
-        originalSize: blob.size, 
-        originalType: blob.type,
-        finalSize: finalBlob.size,
-        finalType: finalBlob.type,
+        size: blob.size, 
+        type: blob.type,
         url 
       });
       
       setRecordedVideoUrl(url);
-      setRecordedBlob(finalBlob);
+      setRecordedBlob(blob);
+      setCompressedBlob(null);
       
       // Stop the camera stream
       if (streamRef.current) {
         streamRef.current.getTracks().forEach(track => track.stop());
         streamRef.current = null;
       }
+      setVideoTrack(null);
       
       // Clear the video element source to ensure clean transition
       if (videoRef.current) {
@@ -164,26 +306,52 @@ export const VideoRecorder = ({ onVideoSubmit }: VideoRecorderProps) => {
     };
 
     console.log('Starting MediaRecorder...');
-    mediaRecorder.start();
+    mediaRecorder.start(CHUNK_INTERVAL_MS);
     setIsRecording(true);
-  }, []);
+    setIsPaused(false);
+    startTimer();
+  }, [startTimer]);
+
+  const pauseRecording = useCallback(() => {
+    const mediaRecorder = mediaRecorderRef.current;
+    if (!mediaRecorder || mediaRecorder.state !== 'recording') return;
+
+    mediaRecorder.pause();
+    setIsPaused(true);
+    pauseTimer();
+  }, [pauseTimer]);
+
+  const resumeRecording = useCallback(() => {
+    const mediaRecorder = mediaRecorderRef.current;
+    if (!mediaRecorder || mediaRecorder.state !== 'paused') return;
+
+    mediaRecorder.resume();
+    setIsPaused(false);
+    resumeTimer();
+  }, [resumeTimer]);
 
   const stopRecording = useCallback(() => {
+    // A paused recorder can be stopped directly; the paused stretch is simply not in the video
     if (mediaRecorderRef.current && isRecording) {
       mediaRecorderRef.current.stop();
       setIsRecording(false);
+      setIsPaused(false);
+      stopTimer();
     }
-  }, [isRecording]);
+  }, [isRecording, stopTimer]);
 
   const resetRecording = useCallback(() => {
     setRecordedVideoUrl(null);
     setRecordedBlob(null);
+    setCompressedBlob(null);
     setDescription('');
+    setSubmitError(null);
     chunksRef.current = [];
+    resetTimer();
     
     // Restart camera
     startCamera();
-  }, [startCamera]);
+  }, [startCamera, resetTimer]);
 
   const handleSubmit = useCallback(async () => {
     if (!recordedBlob || !description.trim()) {
@@ -196,31 +364,52 @@ export const VideoRecorder = ({ onVideoSubmit }: VideoRecorderProps) => {
     }
 
     setIsSubmitting(true);
+    setSubmitError(null);
     try {
-      await onVideoSubmit(recordedBlob, description.trim());
+      await onVideoSubmit(compressedBlob ?? recordedBlob, description.trim());
       toast({
         title: "Report Submitted",
         description: "Your video report has been submitted successfully!",
       });
       setRecordedVideoUrl(null);
       setRecordedBlob(null);
+      setCompressedBlob(null);
       setDescription('');
     } catch (error) {
-      toast({
-        title: "Submission Failed",
-        description: "Failed to submit your report. Please try again.",
-        variant: "destructive",
-      });
+      // Keep the recording and description so the user can submit again
+      if (error instanceof UploadCancelledError) return;
+      setSubmitError(getErrorRecovery(error));
     } finally {
       setIsSubmitting(false);
     }
-  }, [recordedBlob, description, onVideoSubmit, toast]);
+  }, [recordedBlob, compressedBlob, description, onVideoSubmit, toast]);
 
-  // Initialize camera on component mount
+  // Initialize camera on component mount, and restart it when a different device is picked
   useEffect(() => {
     startCamera();
   }, [startCamera]);
 
+  // Release the camera when leaving the page
+  useEffect(() => () => {
+    cameraRequestRef.current++;
+    stopStream();
+  }, [stopStream]);
+
+  const { maxDurationMs } = limits;
+  const remainingMs = Math.max(0, maxDurationMs - elapsedMs);
+  const isNearLimit = isRecording && !isPaused && remainingMs <= STOP_WARNING_MS;
+
+  // The timer does not run while paused, so paused time never counts towards the limit
+  useEffect(() => {
+    if (!isRecording || elapsedMs < maxDurationMs) return;
+
+    stopRecording();
+    toast({
+      title: "Maximum Length Reached",
+      description: `Recordings are limited to ${formatDuration(maxDurationMs)}. You can still describe and submit this one.`,
+    });
+  }, [isRecording, elapsedMs, maxDurationMs, stopRecording, toast]);
+
   if (hasPermission === false) {
     return (
       <Card className="w-full max-w-2xl mx-auto">
@@ -270,19 +459,107 @@ export const VideoRecorder = ({ onVideoSubmit }: VideoRecorderProps) => {
                 playsInline
                 webkit-playsinline="true"
                 className="w-full h-full object-cover"
-                style={{ transform: 'scaleX(-1)' }}
+                // Display only: the recording itself is never mirrored
+                style={isMirrored ? { transform: 'scaleX(-1)' } : undefined}
               />
             )}
             
             {/* Recording indicator */}
-            {isRecording && (
+            {isRecording && !isPaused && (
               <div className="absolute top-4 left-4 flex items-center bg-destructive text-destructive-foreground px-3 py-1 rounded-full">
                 <div className="w-2 h-2 bg-destructive-foreground rounded-full mr-2 animate-pulse" />
-                Recording...
+                {formatDuration(elapsedMs)}
+                <span className="ml-2 text-xs opacity-80">
+                  {formatDuration(Math.ceil(remainingMs / 1000) * 1000)} left
+                </span>
+              </div>
+            )}
+
+            {isRecording && (
+              <div
+                className={`absolute top-4 right-4 px-3 py-1 rounded-full text-xs bg-background/80 ${
+                  recordedBytes > limits.maxBytes ? 'text-destructive font-medium' : 'text-foreground'
+                }`}
+                title="Estimated file size so far"
+              >
+                ~{formatFileSize(recordedBytes)}
+              </div>
+            )}
+
+            {!recordedVideoUrl && !isRecording && activeCameraId && (
+              <Button
+                onClick={toggleMirror}
+                variant="secondary"
+                size="icon"
+                className="absolute bottom-4 left-4 rounded-full"
+                aria-label={isMirrored ? 'Show preview unmirrored' : 'Mirror preview'}
+                aria-pressed={isMirrored}
+                title="Mirroring only affects the preview, not the recording"
+              >
+                <FlipHorizontal className="h-5 w-5" />
+              </Button>
+            )}
+
+            {!recordedVideoUrl && !isRecording && cameras.length > 1 && (
+              <Button
+                onClick={flipCamera}
+                variant="secondary"
+                size="icon"
+                className="absolute bottom-4 right-4 rounded-full"
+                aria-label="Switch camera"
+              >
+                <SwitchCamera className="h-5 w-5" />
+              </Button>
+            )}
+
+            {isNearLimit && (
+              <div className="absolute bottom-4 inset-x-4 text-center bg-destructive text-destructive-foreground px-3 py-2 rounded-lg text-sm font-medium">
+                Recording stops in {Math.ceil(remainingMs / 1000)}s
+              </div>
+            )}
+
+            {isRecording && isPaused && (
+              <div className="absolute inset-0 flex items-center justify-center bg-background/60">
+                <div className="absolute top-4 left-4 flex items-center bg-muted text-foreground px-3 py-1 rounded-full">
+                  <Pause className="h-3 w-3 mr-2" />
+                  Paused {formatDuration(elapsedMs)}
+                </div>
+                <Pause className="h-16 w-16 text-foreground/80" />
               </div>
             )}
           </div>
 
+          {/* Camera Controls: torch and zoom, where the camera supports them */}
+          {!recordedVideoUrl && (isTorchSupported || zoomRange) && (
+            <div className="flex items-center gap-4 max-w-sm mx-auto">
+              {isTorchSupported && (
+                <Button
+                  onClick={handleToggleTorch}
+                  variant={isTorchOn ? 'default' : 'outline'}
+                  size="icon"
+                  aria-label={isTorchOn ? 'Turn flashlight off' : 'Turn flashlight on'}
+                  aria-pressed={isTorchOn}
+                >
+                  {isTorchOn ? <Flashlight className="h-4 w-4" /> : <FlashlightOff className="h-4 w-4" />}
+                </Button>
+              )}
+              {zoomRange && zoom !== null && (
+                <div className="flex flex-1 items-center gap-2">
+                  <ZoomIn className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+                  <Slider
+                    value={[zoom]}
+                    min={zoomRange.min}
+                    max={zoomRange.max}
+                    step={zoomRange.step}
+                    onValueChange={([value]) => setZoom(value)}
+                    aria-label="Zoom"
+                  />
+                  <span className="text-xs text-muted-foreground w-10 text-right">{zoom.toFixed(1)}×</span>
+                </div>
+              )}
+            </div>
+          )}
+
           {/* Controls */}
           <div className="flex justify-center space-x-4">
             {!recordedVideoUrl ? (
@@ -292,10 +569,25 @@ export const VideoRecorder = ({ onVideoSubmit }: VideoRecorderProps) => {
                   Start Recording
                 </Button>
               ) : (
-                <Button onClick={stopRecording} variant="destructive" size="lg">
-                  <Square className="h-5 w-5 mr-2" />
-                  Stop Recording
-                </Button>
+                <>
+                  {canPauseRecording() && (
+                    isPaused ? (
+                      <Button onClick={resumeRecording} variant="outline" size="lg">
+                        <Play className="h-5 w-5 mr-2" />
+                        Resume
+                      </Button>
+                    ) : (
+                      <Button onClick={pauseRecording} variant="outline" size="lg">
+                        <Pause className="h-5 w-5 mr-2" />
+                        Pause
+                      </Button>
+                    )
+                  )}
+                  <Button onClick={stopRecording} variant="destructive" size="lg">
+                    <Square className="h-5 w-5 mr-2" />
+                    Stop Recording
+                  </Button>
+                </>
               )
             ) : (
               <Button onClick={resetRecording} variant="outline" size="lg">
@@ -305,6 +597,38 @@ export const VideoRecorder = ({ onVideoSubmit }: VideoRecorderProps) => {
             )}
           </div>
 
+          {/* Device Picker */}
+          {!recordedVideoUrl && (cameras.length > 1 || microphones.length > 1) && (
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 max-w-xl mx-auto">
+              <Select value={activeCameraId ?? undefined} onValueChange={selectCamera} disabled={isRecording}>
+                <SelectTrigger aria-label="Camera">
+                  <Camera className="h-4 w-4 mr-2 flex-shrink-0" />
+                  <SelectValue placeholder="Camera" />
+                </SelectTrigger>
+                <SelectContent>
+                  {cameras.map((camera, index) => (
+                    <SelectItem key={camera.deviceId} value={camera.deviceId}>
+                      {camera.label || `Camera ${index + 1}`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={activeMicrophoneId ?? undefined} onValueChange={selectMicrophone} disabled={isRecording}>
+                <SelectTrigger aria-label="Microphone">
+                  <Mic className="h-4 w-4 mr-2 flex-shrink-0" />
+                  <SelectValue placeholder="Microphone" />
+                </SelectTrigger>
+                <SelectContent>
+                  {microphones.map((microphone, index) => (
+                    <SelectItem key={microphone.deviceId} value={microphone.deviceId}>
+                      {microphone.label || `Microphone ${index + 1}`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
           {/* Description Input */}
           {recordedVideoUrl && (
             <div className="space-y-4">
@@ -321,9 +645,54 @@ export const VideoRecorder = ({ onVideoSubmit }: VideoRecorderProps) => {
                 />
               </div>
 
+              {recordedBlob && (
+                <VideoCompressionPanel
+                  recording={recordedBlob}
+                  compressed={compressedBlob}
+                  onCompressedChange={setCompressedBlob}
+                  onCompressingChange={setIsCompressing}
+                  disabled={isSubmitting}
+                />
+              )}
+
+              {submitError && !isSubmitting && (
+                <Alert variant="destructive">
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertTitle>{submitError.title}</AlertTitle>
+                  <AlertDescription>
+                    <p>{submitError.description}</p>
+                    {(submitError.actions.includes('retry') || submitError.actions.includes('record-again')) && (
+                      <div className="flex space-x-2 mt-3">
+                        {submitError.actions.includes('retry') && (
+                          <Button variant="outline" size="sm" onClick={handleSubmit}>
+                            <RotateCcw className="h-3 w-3 mr-1" />
+                            Try Again
+                          </Button>
+                        )}
+                        {submitError.actions.includes('record-again') && (
+                          <Button variant="outline" size="sm" onClick={resetRecording}>
+                            <Camera className="h-3 w-3 mr-1" />
+                            Record Again
+                          </Button>
+                        )}
+                      </div>
+                    )}
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              {isSubmitting && uploadStatus && (
+                <UploadProgressBar
+                  status={uploadStatus}
+                  onPause={onPauseUpload}
+                  onResume={onResumeUpload}
+                  onCancel={onCancelUpload}
+                />
+              )}
+
               <Button 
                 onClick={handleSubmit} 
-                disabled={isSubmitting || !description.trim()}
+                disabled={isSubmitting || isCompressing || !description.trim()}
                 variant="success"
                 size="lg"
                 className="w-full"
@@ -356,7 +725,7 @@ export const VideoRecorder = ({ onVideoSubmit }: VideoRecorderProps) => {
             <li>• Make sure you have good lighting when recording</li>
             <li>• Hold your device steady and speak clearly</li>
             <li>• Show the problem area clearly in the video</li>
-            <li>• Keep recordings under 2 minutes for best results</li>
+            <li>• Recordings stop automatically after {formatDuration(maxDurationMs)}</li>
             <li>• Describe what you're showing as you record</li>
           </ul>
         </CardContent>
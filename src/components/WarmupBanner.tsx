@@ -0,0 +1,44 @@
+import { useEffect, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Progress } from '@/components/ui/progress';
+import { WarmupStatus } from '@/services/api';
+
+interface WarmupBannerProps {
+  status: WarmupStatus;
+}
+
+// Shown while a sleeping backend boots, with a countdown to when it usually finishes.
+export const WarmupBanner = ({ status }: WarmupBannerProps) => {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const intervalId = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(intervalId);
+  }, []);
+
+  if (status.state !== 'warming' || !status.startedAt || !status.estimatedReadyAt) {
+    return null;
+  }
+
+  const total = status.estimatedReadyAt - status.startedAt;
+  const remainingSeconds = Math.ceil((status.estimatedReadyAt - now) / 1000);
+  const percentage = Math.min(95, Math.round(((now - status.startedAt) / total) * 100));
+
+  return (
+    <Alert className="mt-4">
+      <Loader2 className="h-4 w-4 animate-spin" />
+      <AlertTitle>Waking up the analysis service</AlertTitle>
+      <AlertDescription className="space-y-2">
+        <p>
+          The service sleeps when nobody is using it and takes about a minute to start.{' '}
+          {remainingSeconds > 0
+            ? `About ${remainingSeconds} seconds left.`
+            : 'This is taking a little longer than usual.'}
+        </p>
+        <p>You can record and submit now; your report will be sent as soon as the service is ready.</p>
+        <Progress value={percentage} className="h-1.5" />
+      </AlertDescription>
+    </Alert>
+  );
+};
@@ -0,0 +1,14 @@
+import { useEffect, useState } from 'react';
+import { apiService, WarmupStatus } from '@/services/api';
+
+// Follows the backend warm-up started on app load (see main.tsx).
+export const useBackendWarmup = (): WarmupStatus => {
+  const [status, setStatus] = useState<WarmupStatus>(() => apiService.warmup);
+
+  useEffect(() => {
+    setStatus(apiService.warmup);
+    return apiService.onWarmupChange(setStatus);
+  }, []);
+
+  return status;
+};
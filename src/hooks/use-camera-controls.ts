@@ -0,0 +1,81 @@
+import { useCallback, useEffect, useState } from 'react';
+
+export interface ZoomRange {
+  min: number;
+  max: number;
+  step: number;
+}
+
+// Torch and zoom come from the Image Capture spec and are not in TypeScript's DOM types yet
+interface CameraCapabilities extends MediaTrackCapabilities {
+  torch?: boolean;
+  zoom?: { min: number; max: number; step?: number };
+}
+
+type CameraConstraintSet = MediaTrackConstraintSet & { torch?: boolean; zoom?: number };
+
+// Torch and zoom for a camera track, offered only where the track reports support for them.
+// Support is often partial (Firefox and iOS Safari expose neither), so a control the camera
+// rejects is withdrawn rather than left on screen doing nothing.
+export const useCameraControls = (track: MediaStreamTrack | null) => {
+  const [isTorchSupported, setIsTorchSupported] = useState(false);
+  const [isTorchOn, setIsTorchOn] = useState(false);
+  const [zoomRange, setZoomRange] = useState<ZoomRange | null>(null);
+  const [zoom, setZoomValue] = useState<number | null>(null);
+
+  useEffect(() => {
+    setIsTorchOn(false);
+
+    if (!track || typeof track.getCapabilities !== 'function') {
+      setIsTorchSupported(false);
+      setZoomRange(null);
+      setZoomValue(null);
+      return;
+    }
+
+    const capabilities = track.getCapabilities() as CameraCapabilities;
+    const range = capabilities.zoom && capabilities.zoom.max > capabilities.zoom.min
+      ? { min: capabilities.zoom.min, max: capabilities.zoom.max, step: capabilities.zoom.step || 0.1 }
+      : null;
+    const settings = track.getSettings() as MediaTrackSettings & { zoom?: number };
+
+    setIsTorchSupported(capabilities.torch === true);
+    setZoomRange(range);
+    setZoomValue(range ? settings.zoom ?? range.min : null);
+  }, [track]);
+
+  const apply = useCallback(async (constraints: CameraConstraintSet): Promise<boolean> => {
+    if (!track || track.readyState !== 'live') return false;
+
+    try {
+      await track.applyConstraints({ advanced: [constraints] });
+      return true;
+    } catch (error) {
+      console.warn('Camera rejected constraints:', constraints, error);
+      return false;
+    }
+  }, [track]);
+
+  // Resolves to false if the camera refused, in which case the torch control is withdrawn
+  const toggleTorch = useCallback(async (): Promise<boolean> => {
+    const next = !isTorchOn;
+    const applied = await apply({ torch: next });
+
+    if (applied) {
+      setIsTorchOn(next);
+    } else {
+      setIsTorchSupported(false);
+    }
+    return applied;
+  }, [apply, isTorchOn]);
+
+  const setZoom = useCallback(async (value: number): Promise<boolean> => {
+    setZoomValue(value);
+    const applied = await apply({ zoom: value });
+
+    if (!applied) setZoomRange(null);
+    return applied;
+  }, [apply]);
+
+  return { isTorchSupported, isTorchOn, toggleTorch, zoomRange, zoom, setZoom };
+};
@@ -0,0 +1,14 @@
+import { useEffect, useState } from 'react';
+import { apiService, CircuitSnapshot } from '@/services/api';
+
+// Follows the API circuit breaker, so components can show when requests are paused.
+export const useCircuitBreaker = (): CircuitSnapshot => {
+  const [snapshot, setSnapshot] = useState<CircuitSnapshot>(() => apiService.circuit);
+
+  useEffect(() => {
+    setSnapshot(apiService.circuit);
+    return apiService.onCircuitChange(setSnapshot);
+  }, []);
+
+  return snapshot;
+};
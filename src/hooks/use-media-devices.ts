@@ -0,0 +1,35 @@
+import { useCallback, useEffect, useState } from 'react';
+
+interface MediaDevices {
+  cameras: MediaDeviceInfo[];
+  microphones: MediaDeviceInfo[];
+}
+
+// Cameras and microphones attached to this device, kept current as they are plugged in or out.
+// Browsers hide device labels until camera access is granted, so call `refresh` once it is.
+export const useMediaDevices = () => {
+  const [devices, setDevices] = useState<MediaDevices>({ cameras: [], microphones: [] });
+
+  const refresh = useCallback(async () => {
+    if (!navigator.mediaDevices?.enumerateDevices) return;
+
+    try {
+      const all = await navigator.mediaDevices.enumerateDevices();
+      // Entries without an id are placeholders for devices the page may not see yet
+      setDevices({
+        cameras: all.filter((device) => device.kind === 'videoinput' && device.deviceId),
+        microphones: all.filter((device) => device.kind === 'audioinput' && device.deviceId),
+      });
+    } catch (error) {
+      console.error('Failed to list media devices:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    navigator.mediaDevices?.addEventListener?.('devicechange', refresh);
+    return () => navigator.mediaDevices?.removeEventListener?.('devicechange', refresh);
+  }, [refresh]);
+
+  return { ...devices, refresh };
+};
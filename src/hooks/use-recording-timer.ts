@@ -0,0 +1,65 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+export type RecordingTimerState = 'idle' | 'running' | 'paused';
+
+const TICK_INTERVAL = 250;
+
+// Elapsed recording time, not counting time spent paused. MediaRecorder does not report how much
+// it has recorded, so the recorder mirrors its start/pause/resume/stop calls here.
+export const useRecordingTimer = () => {
+  const [state, setState] = useState<RecordingTimerState>('idle');
+  const [elapsedMs, setElapsedMs] = useState(0);
+  // Time recorded in earlier segments, and when the current one started (null while not running)
+  const accumulatedRef = useRef(0);
+  const segmentStartRef = useRef<number | null>(null);
+
+  const elapsedNow = useCallback(() => {
+    const segmentStart = segmentStartRef.current;
+    return accumulatedRef.current + (segmentStart === null ? 0 : performance.now() - segmentStart);
+  }, []);
+
+  useEffect(() => {
+    if (state !== 'running') return;
+
+    const interval = window.setInterval(() => setElapsedMs(elapsedNow()), TICK_INTERVAL);
+    return () => window.clearInterval(interval);
+  }, [state, elapsedNow]);
+
+  const start = useCallback(() => {
+    accumulatedRef.current = 0;
+    segmentStartRef.current = performance.now();
+    setElapsedMs(0);
+    setState('running');
+  }, []);
+
+  const pause = useCallback(() => {
+    if (segmentStartRef.current === null) return;
+    accumulatedRef.current = elapsedNow();
+    segmentStartRef.current = null;
+    setElapsedMs(accumulatedRef.current);
+    setState('paused');
+  }, [elapsedNow]);
+
+  const resume = useCallback(() => {
+    if (segmentStartRef.current !== null) return;
+    segmentStartRef.current = performance.now();
+    setState('running');
+  }, []);
+
+  // Keeps the final duration on display until the next start or reset
+  const stop = useCallback(() => {
+    accumulatedRef.current = elapsedNow();
+    segmentStartRef.current = null;
+    setElapsedMs(accumulatedRef.current);
+    setState('idle');
+  }, [elapsedNow]);
+
+  const reset = useCallback(() => {
+    accumulatedRef.current = 0;
+    segmentStartRef.current = null;
+    setElapsedMs(0);
+    setState('idle');
+  }, []);
+
+  return { state, elapsedMs, start, pause, resume, stop, reset };
+};
@@ -0,0 +1,23 @@
+import { useCallback, useMemo } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { DEFAULT_REPORT_FILTERS, parseReportFilters, ReportFilters, toSearchParams } from '@/lib/reportFilters';
+
+// Report list filters backed by the URL query string. Updates replace the history entry, so typing
+// a search does not leave one back-button step per keystroke.
+export const useReportFilters = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const filters = useMemo(() => parseReportFilters(searchParams), [searchParams]);
+
+  const updateFilters = useCallback((update: Partial<ReportFilters>) => {
+    setSearchParams((current) => toSearchParams({ ...parseReportFilters(current), ...update }, current), { replace: true });
+  }, [setSearchParams]);
+
+  const clearFilters = useCallback(() => {
+    setSearchParams((current) => {
+      // Keep the sort order; it is a preference rather than a filter
+      return toSearchParams({ ...DEFAULT_REPORT_FILTERS, sort: parseReportFilters(current).sort }, current);
+    }, { replace: true });
+  }, [setSearchParams]);
+
+  return { filters, updateFilters, clearFilters };
+};
@@ -0,0 +1,67 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { apiService, Report } from '@/services/api';
+
+export const reportKeys = {
+  all: ['reports'] as const,
+  detail: (reportId: string) => ['reports', reportId] as const,
+};
+
+const REPORTS_STALE_TIME = 30_000;
+const REPORTS_REFRESH_INTERVAL = 60_000;
+
+interface ReportQueryOptions {
+  enabled?: boolean;
+}
+
+// The backend's report history, refreshed in the background. ApiService already retries
+// idempotent requests with backoff, so React Query does not retry on top of that.
+export const useReports = ({ enabled = true }: ReportQueryOptions = {}) =>
+  useQuery({
+    queryKey: reportKeys.all,
+    queryFn: ({ signal }) => apiService.listReports(signal),
+    enabled,
+    staleTime: REPORTS_STALE_TIME,
+    refetchInterval: REPORTS_REFRESH_INTERVAL,
+    retry: false,
+  });
+
+export const useReport = (reportId: string | undefined, { enabled = true }: ReportQueryOptions = {}) => {
+  const queryClient = useQueryClient();
+
+  return useQuery<Report>({
+    queryKey: reportKeys.detail(reportId ?? ''),
+    queryFn: ({ signal }) => apiService.getReport(reportId, signal),
+    enabled: enabled && Boolean(reportId),
+    staleTime: REPORTS_STALE_TIME,
+    retry: false,
+    // Show the copy from the list straight away while the full report loads
+    placeholderData: () =>
+      queryClient.getQueryData<Report[]>(reportKeys.all)?.find((report) => report.serverId === reportId),
+  });
+};
+
+// Removes the report from the cached list right away and puts it back if the server refuses
+export const useDeleteReport = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (reportId: string) => apiService.deleteReport(reportId),
+    onMutate: async (reportId) => {
+      await queryClient.cancelQueries({ queryKey: reportKeys.all });
+      const previous = queryClient.getQueryData<Report[]>(reportKeys.all);
+
+      queryClient.setQueryData<Report[]>(reportKeys.all, (reports) =>
+        reports?.filter((report) => report.serverId !== reportId)
+      );
+      queryClient.removeQueries({ queryKey: reportKeys.detail(reportId), exact: true });
+
+      return { previous };
+    },
+    onError: (_error, _reportId, context) => {
+      if (context?.previous) {
+        queryClient.setQueryData(reportKeys.all, context.previous);
+      }
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: reportKeys.all }),
+  });
+};
@@ -0,0 +1,164 @@
+import { bitrateForTargetSize, canTranscodeToMp4, scaledDimensions, transcodeToMp4 } from './transcodeToMp4';
+import { RECORDING_MIME_TYPES } from './videoFormat';
+
+// Optional compression of a recording before it is submitted, so a 720p phone clip is not sent
+// over mobile data at full size. Uses the WebCodecs transcoder (MP4 out) where available and falls
+// back to re-recording a downscaled canvas with MediaRecorder at a lower bitrate.
+
+export type CompressionPresetId = 'balanced' | 'data-saver' | 'under-10mb';
+
+export interface CompressionPreset {
+  id: CompressionPresetId;
+  label: string;
+  description: string;
+  maxResolution: number;
+  videoBitrate: number;
+  audioBitrate: number;
+  targetBytes?: number;
+}
+
+export const COMPRESSION_PRESETS: CompressionPreset[] = [
+  {
+    id: 'balanced',
+    label: 'Balanced (720p)',
+    description: 'Good detail at a fraction of the size',
+    maxResolution: 720,
+    videoBitrate: 1_500_000,
+    audioBitrate: 96_000,
+  },
+  {
+    id: 'data-saver',
+    label: 'Data saver (480p)',
+    description: 'Smallest upload; fine details may blur',
+    maxResolution: 480,
+    videoBitrate: 700_000,
+    audioBitrate: 64_000,
+  },
+  {
+    id: 'under-10mb',
+    label: 'Fit under 10 MB',
+    description: 'Picks the bitrate from the recording length',
+    maxResolution: 720,
+    videoBitrate: 2_000_000,
+    audioBitrate: 96_000,
+    targetBytes: 10 * 1024 * 1024,
+  },
+];
+
+export interface CompressOptions {
+  signal?: AbortSignal;
+  onProgress?: (percentage: number) => void;
+}
+
+const canRecordCanvas = (): boolean =>
+  typeof MediaRecorder !== 'undefined' &&
+  typeof HTMLCanvasElement !== 'undefined' &&
+  'captureStream' in HTMLCanvasElement.prototype;
+
+export const canCompressVideo = (): boolean => canTranscodeToMp4() || canRecordCanvas();
+
+const abortError = () => new DOMException('Video compression was cancelled.', 'AbortError');
+
+// Plays the recording into a downscaled canvas and records that with MediaRecorder. Audio is routed
+// through Web Audio into the new recording rather than to the speakers.
+const recompressWithMediaRecorder = async (
+  blob: Blob,
+  preset: CompressionPreset,
+  { signal, onProgress }: CompressOptions
+): Promise<Blob> => {
+  const url = URL.createObjectURL(blob);
+  const video = document.createElement('video');
+  const audioContext = new AudioContext();
+  let frameRequest = 0;
+
+  try {
+    video.playsInline = true;
+    video.src = url;
+    await new Promise<void>((resolve, reject) => {
+      video.onloadedmetadata = () => resolve();
+      video.onerror = () => reject(new Error('The recording could not be decoded for compression'));
+    });
+
+    const { width, height } = scaledDimensions(video.videoWidth, video.videoHeight, preset.maxResolution);
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const context = canvas.getContext('2d');
+
+    const audioDestination = audioContext.createMediaStreamDestination();
+    audioContext.createMediaElementSource(video).connect(audioDestination);
+
+    const stream = new MediaStream([
+      ...canvas.captureStream(30).getVideoTracks(),
+      ...audioDestination.stream.getAudioTracks(),
+    ]);
+
+    const duration = Number.isFinite(video.duration) ? video.duration : 0;
+    const videoBitsPerSecond =
+      preset.targetBytes && duration > 0
+        ? Math.min(preset.videoBitrate, bitrateForTargetSize(preset.targetBytes, duration, preset.audioBitrate))
+        : preset.videoBitrate;
+
+    const recorder = new MediaRecorder(stream, {
+      mimeType: RECORDING_MIME_TYPES.find((type) => MediaRecorder.isTypeSupported(type)),
+      videoBitsPerSecond,
+      audioBitsPerSecond: preset.audioBitrate,
+    });
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) chunks.push(event.data);
+    };
+
+    const drawFrame = () => {
+      context?.drawImage(video, 0, 0, width, height);
+      if (duration > 0) onProgress?.(Math.min(99, Math.round((video.currentTime / duration) * 100)));
+      frameRequest = requestAnimationFrame(drawFrame);
+    };
+
+    await new Promise<void>((resolve, reject) => {
+      const onAbort = () => {
+        video.pause();
+        recorder.stop();
+        reject(abortError());
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      video.onended = () => {
+        signal?.removeEventListener('abort', onAbort);
+        recorder.onstop = () => resolve();
+        recorder.stop();
+      };
+
+      recorder.start(1000);
+      drawFrame();
+      video.play().catch(reject);
+    });
+
+    onProgress?.(100);
+    return new Blob(chunks, { type: recorder.mimeType || chunks[0]?.type || 'video/webm' });
+  } finally {
+    cancelAnimationFrame(frameRequest);
+    audioContext.close();
+    URL.revokeObjectURL(url);
+  }
+};
+
+export const compressVideo = async (blob: Blob, preset: CompressionPreset, options: CompressOptions = {}): Promise<Blob> => {
+  if (options.signal?.aborted) throw abortError();
+
+  if (canTranscodeToMp4()) {
+    return transcodeToMp4(blob, {
+      ...options,
+      maxResolution: preset.maxResolution,
+      videoBitrate: preset.videoBitrate,
+      audioBitrate: preset.audioBitrate,
+      targetBytes: preset.targetBytes,
+    });
+  }
+
+  if (canRecordCanvas()) {
+    return recompressWithMediaRecorder(blob, preset, options);
+  }
+
+  throw new Error('Video compression is not supported in this browser');
+};
@@ -0,0 +1,148 @@
+import { z } from 'zod';
+
+// App configuration, resolved once at startup from (later sources win):
+//   1. built-in defaults for tunables
+//   2. Vite env (VITE_* variables, baked in at build time; see .env and render.yaml)
+//   3. an optional /config.json served next to index.html, so a built bundle can be repointed without rebuilding
+// The mock backend (services/mockTransport.ts) is switched on by VITE_MOCK_API=true or a ?mock=1 URL param.
+
+const RUNTIME_CONFIG_URL = '/config.json';
+const MOCK_SESSION_KEY = 'fixify-mock-api';
+
+const configSchema = z.object({
+  apiBaseUrl: z
+    .string({ required_error: 'is not set (VITE_API_URL or "apiBaseUrl" in config.json)' })
+    .url('must be an absolute URL, e.g. https://example.com/api'),
+  healthUrl: z
+    .string({ required_error: 'is not set (VITE_HEALTH_URL or "healthUrl" in config.json)' })
+    .url('must be an absolute URL'),
+  requestTimeoutMs: z.number().int().min(1000, 'must be at least 1000 ms'),
+  analysisTimeoutMs: z.number().int().min(10000, 'must be at least 10000 ms'),
+  uploadChunkSizeBytes: z.number().int().min(64 * 1024, 'must be at least 64 KB'),
+  maxUploadBytes: z.number().int().positive('must be a positive number of bytes'),
+  // Recordings stop automatically at this length
+  maxRecordingSeconds: z.number().int().min(10, 'must be at least 10 seconds'),
+  // 'mp4' converts recordings in other containers (e.g. WebM) to MP4 before upload; 'original' sends them as recorded
+  uploadContainer: z.enum(['original', 'mp4']),
+  mockApi: z.boolean(),
+});
+
+export type AppConfig = z.infer<typeof configSchema>;
+
+// `config` is null whenever `issues` is non-empty
+export interface ConfigResult {
+  config: AppConfig | null;
+  issues: string[];
+}
+
+const DEFAULTS: Omit<AppConfig, 'apiBaseUrl' | 'healthUrl'> = {
+  requestTimeoutMs: 30000,
+  analysisTimeoutMs: 10 * 60 * 1000,
+  uploadChunkSizeBytes: 1024 * 1024,
+  maxUploadBytes: 100 * 1024 * 1024,
+  maxRecordingSeconds: 120,
+  uploadContainer: 'mp4',
+  mockApi: false,
+};
+
+// The backend serves /health from its origin root, next to (not under) the /api prefix
+export const deriveHealthUrl = (apiBaseUrl: string): string | undefined => {
+  try {
+    const url = new URL(apiBaseUrl);
+    url.pathname = `${url.pathname.replace(/\/+$/, '').replace(/\/api$/, '')}/health`;
+    url.search = '';
+    return url.toString();
+  } catch {
+    return undefined;
+  }
+};
+
+const numberFromEnv = (value: string | undefined): number | undefined => {
+  if (value === undefined || value.trim() === '') return undefined;
+  return Number(value);
+};
+
+// ?mock=1 / ?mock=0 is remembered for the tab, so it survives in-app navigation that drops the query string
+const readMockFlagFromUrl = (): boolean | undefined => {
+  const param = new URLSearchParams(window.location.search).get('mock');
+
+  if (param !== null) {
+    const enabled = param !== '0' && param !== 'false';
+    sessionStorage.setItem(MOCK_SESSION_KEY, String(enabled));
+    return enabled;
+  }
+
+  const remembered = sessionStorage.getItem(MOCK_SESSION_KEY);
+  return remembered === null ? undefined : remembered === 'true';
+};
+
+const readEnvConfig = (): Partial<AppConfig> => {
+  const env = import.meta.env;
+  const maxUploadMb = numberFromEnv(env.VITE_MAX_UPLOAD_MB);
+
+  return {
+    apiBaseUrl: env.VITE_API_URL || undefined,
+    healthUrl: env.VITE_HEALTH_URL || undefined,
+    requestTimeoutMs: numberFromEnv(env.VITE_REQUEST_TIMEOUT_MS),
+    analysisTimeoutMs: numberFromEnv(env.VITE_ANALYSIS_TIMEOUT_MS),
+    uploadChunkSizeBytes: numberFromEnv(env.VITE_UPLOAD_CHUNK_SIZE_BYTES),
+    maxUploadBytes: maxUploadMb === undefined ? undefined : Math.round(maxUploadMb * 1024 * 1024),
+    maxRecordingSeconds: numberFromEnv(env.VITE_MAX_RECORDING_SECONDS),
+    uploadContainer: (env.VITE_UPLOAD_CONTAINER || undefined) as AppConfig['uploadContainer'] | undefined,
+    mockApi: env.VITE_MOCK_API ? env.VITE_MOCK_API === 'true' : undefined,
+  };
+};
+
+const readRuntimeConfig = async (): Promise<{ config: Partial<AppConfig>; issues: string[] }> => {
+  try {
+    const response = await fetch(RUNTIME_CONFIG_URL, { cache: 'no-store' });
+    // Optional file: a missing one (or the SPA fallback serving index.html) just means "no overrides"
+    if (!response.ok || !response.headers.get('Content-Type')?.includes('json')) {
+      return { config: {}, issues: [] };
+    }
+
+    const parsed = configSchema.partial().strict().safeParse(await response.json());
+    if (!parsed.success) {
+      return {
+        config: {},
+        issues: parsed.error.issues.map((issue) => `config.json ${issue.path.join('.') || '(root)'}: ${issue.message}`),
+      };
+    }
+    return { config: parsed.data, issues: [] };
+  } catch (error) {
+    return { config: {}, issues: [`config.json could not be read: ${error instanceof Error ? error.message : error}`] };
+  }
+};
+
+const withoutUndefined = <T extends object>(value: T): Partial<T> =>
+  Object.fromEntries(Object.entries(value).filter(([, entry]) => entry !== undefined)) as Partial<T>;
+
+export const loadConfig = async (): Promise<ConfigResult> => {
+  const runtime = await readRuntimeConfig();
+  if (runtime.issues.length > 0) {
+    return { config: null, issues: runtime.issues };
+  }
+
+  const merged: Partial<AppConfig> = {
+    ...DEFAULTS,
+    ...withoutUndefined(readEnvConfig()),
+    ...withoutUndefined(runtime.config),
+  };
+  merged.mockApi = readMockFlagFromUrl() ?? merged.mockApi;
+  // The mock backend answers any URL, so it does not need a real one configured
+  if (merged.mockApi) {
+    merged.apiBaseUrl ??= `${window.location.origin}/mock-api`;
+  }
+  merged.healthUrl ??= merged.apiBaseUrl ? deriveHealthUrl(merged.apiBaseUrl) : undefined;
+
+  const result = configSchema.safeParse(merged);
+  if (!result.success) {
+    return {
+      config: null,
+      issues: result.error.issues.map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`),
+    };
+  }
+
+  console.log('Loaded app configuration:', result.data);
+  return { config: result.data, issues: [] };
+};
@@ -0,0 +1,80 @@
+import { ApiErrorCode, toApiError } from '@/services/errors';
+
+export type RecoveryAction = 'retry' | 'record-again' | 'check-connection' | 'sign-in';
+
+export interface ErrorRecovery {
+  code: ApiErrorCode;
+  title: string;
+  description: string;
+  actions: RecoveryAction[];
+}
+
+const RECOVERY: Record<ApiErrorCode, Omit<ErrorRecovery, 'code' | 'description'> & { hint?: string }> = {
+  NETWORK_ERROR: {
+    title: 'Connection Lost',
+    hint: 'Your recording is safe. Reconnect and try again.',
+    actions: ['retry', 'check-connection'],
+  },
+  TIMEOUT: {
+    title: 'Request Timed Out',
+    hint: 'The analysis service is slow to respond right now.',
+    actions: ['retry'],
+  },
+  PAYLOAD_TOO_LARGE: {
+    title: 'Video Too Large',
+    hint: 'Compress the video or record a shorter clip, then submit again.',
+    actions: ['record-again'],
+  },
+  UNSUPPORTED_FORMAT: {
+    title: 'Unsupported Video',
+    hint: 'This recording could not be processed. Please record it again.',
+    actions: ['record-again'],
+  },
+  SERVER_ERROR: {
+    title: 'Service Unavailable',
+    hint: 'The analysis service ran into a problem. Try again in a moment.',
+    actions: ['retry', 'check-connection'],
+  },
+  ANALYSIS_FAILED: {
+    title: 'Analysis Failed',
+    actions: ['retry', 'record-again'],
+  },
+  AUTH_REQUIRED: {
+    title: 'Sign In Required',
+    actions: ['sign-in'],
+  },
+  CONTRACT_VIOLATION: {
+    title: 'Unexpected Response',
+    hint: 'The service may have been updated. Please try again later.',
+    actions: ['retry', 'check-connection'],
+  },
+  BAD_REQUEST: {
+    title: 'Submission Rejected',
+    actions: ['record-again'],
+  },
+  UPLOAD_CANCELLED: {
+    title: 'Upload Cancelled',
+    actions: [],
+  },
+  CIRCUIT_OPEN: {
+    title: 'Service Paused',
+    hint: 'Your recording is safe. The app will try the service again shortly.',
+    actions: ['retry', 'check-connection'],
+  },
+  UNKNOWN: {
+    title: 'Upload Failed',
+    actions: ['retry'],
+  },
+};
+
+// Turns any thrown value into user-facing copy plus the actions that make sense for it.
+export const getErrorRecovery = (error: unknown): ErrorRecovery => {
+  const apiError = toApiError(error);
+  const { hint, ...recovery } = RECOVERY[apiError.code];
+
+  return {
+    ...recovery,
+    code: apiError.code,
+    description: hint ? `${apiError.message} ${hint}` : apiError.message,
+  };
+};
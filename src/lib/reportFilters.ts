@@ -0,0 +1,132 @@
+import { endOfDay, format, isValid, parse, startOfDay } from 'date-fns';
+import type { Report, Severity } from '@/services/api';
+import { REPORT_STATUSES, ReportStatus } from './reportLifecycle';
+
+// Search, filters and sort order for the report list, kept in the URL query string so a filtered
+// view can be bookmarked or shared:
+//
+//   ?q=leak&status=analyzed,in-progress&category=Plumbing+leak&from=2025-01-01&to=2025-01-31&sort=severity
+
+export type ReportSort = 'newest' | 'oldest' | 'largest' | 'smallest' | 'severity';
+
+export interface ReportFilters {
+  query: string;
+  statuses: ReportStatus[];
+  category: string | null;
+  from: Date | null;
+  to: Date | null;
+  sort: ReportSort;
+}
+
+export const REPORT_SORT_OPTIONS: { value: ReportSort; label: string }[] = [
+  { value: 'newest', label: 'Newest first' },
+  { value: 'oldest', label: 'Oldest first' },
+  { value: 'largest', label: 'Largest video' },
+  { value: 'smallest', label: 'Smallest video' },
+  { value: 'severity', label: 'Most severe' },
+];
+
+export const DEFAULT_REPORT_FILTERS: ReportFilters = {
+  query: '',
+  statuses: [],
+  category: null,
+  from: null,
+  to: null,
+  sort: 'newest',
+};
+
+const DATE_FORMAT = 'yyyy-MM-dd';
+
+// Reports without a structured analysis sort after the least severe ones
+const SEVERITY_RANK: Record<Severity, number> = { critical: 4, high: 3, medium: 2, low: 1 };
+
+const parseDate = (value: string | null): Date | null => {
+  if (!value) return null;
+  const date = parse(value, DATE_FORMAT, new Date());
+  return isValid(date) ? date : null;
+};
+
+// Unknown values in a hand-edited or outdated link are dropped rather than rejected
+export const parseReportFilters = (params: URLSearchParams): ReportFilters => {
+  const sort = params.get('sort');
+
+  return {
+    query: params.get('q') ?? '',
+    statuses: (params.get('status') ?? '')
+      .split(',')
+      .filter((status): status is ReportStatus => REPORT_STATUSES.includes(status as ReportStatus)),
+    category: params.get('category') || null,
+    from: parseDate(params.get('from')),
+    to: parseDate(params.get('to')),
+    sort: REPORT_SORT_OPTIONS.some((option) => option.value === sort) ? (sort as ReportSort) : 'newest',
+  };
+};
+
+const FILTER_PARAMS = ['q', 'status', 'category', 'from', 'to', 'sort'];
+
+// Defaults are left out, so an unfiltered dashboard keeps a clean URL. Unrelated parameters in
+// `base` (such as ?mock=1) are carried over.
+export const toSearchParams = (filters: ReportFilters, base?: URLSearchParams): URLSearchParams => {
+  const params = new URLSearchParams(base);
+  FILTER_PARAMS.forEach((name) => params.delete(name));
+  if (filters.query) params.set('q', filters.query);
+  if (filters.statuses.length > 0) params.set('status', filters.statuses.join(','));
+  if (filters.category) params.set('category', filters.category);
+  if (filters.from) params.set('from', format(filters.from, DATE_FORMAT));
+  if (filters.to) params.set('to', format(filters.to, DATE_FORMAT));
+  if (filters.sort !== DEFAULT_REPORT_FILTERS.sort) params.set('sort', filters.sort);
+  return params;
+};
+
+export const hasActiveFilters = (filters: ReportFilters): boolean =>
+  Boolean(filters.query || filters.statuses.length > 0 || filters.category || filters.from || filters.to);
+
+// Categories come from structured analyses, so only those that appear in the list are offered
+export const reportCategories = (reports: Report[]): string[] =>
+  [...new Set(reports.map((report) => report.structured?.category).filter(Boolean))].sort();
+
+const matchesQuery = (report: Report, terms: string[]): boolean => {
+  const haystack = [
+    report.description,
+    report.analysis,
+    report.structured?.category,
+    report.structured?.probableCause,
+    report.structured?.trade,
+  ]
+    .filter(Boolean)
+    .join(' ')
+    .toLowerCase();
+
+  return terms.every((term) => haystack.includes(term));
+};
+
+const compareReports = (sort: ReportSort) => (a: Report, b: Report): number => {
+  switch (sort) {
+    case 'oldest':
+      return a.submittedAt.getTime() - b.submittedAt.getTime();
+    case 'largest':
+      return b.videoSize - a.videoSize;
+    case 'smallest':
+      return a.videoSize - b.videoSize;
+    case 'severity': {
+      const rank = (report: Report) => (report.structured ? SEVERITY_RANK[report.structured.severity] : 0);
+      return rank(b) - rank(a) || b.submittedAt.getTime() - a.submittedAt.getTime();
+    }
+    case 'newest':
+    default:
+      return b.submittedAt.getTime() - a.submittedAt.getTime();
+  }
+};
+
+export const filterReports = (reports: Report[], filters: ReportFilters): Report[] => {
+  const terms = filters.query.toLowerCase().split(/\s+/).filter(Boolean);
+  const from = filters.from ? startOfDay(filters.from) : null;
+  const to = filters.to ? endOfDay(filters.to) : null;
+
+  return reports
+    .filter((report) => terms.length === 0 || matchesQuery(report, terms))
+    .filter((report) => filters.statuses.length === 0 || filters.statuses.includes(report.status))
+    .filter((report) => !filters.category || report.structured?.category === filters.category)
+    .filter((report) => (!from || report.submittedAt >= from) && (!to || report.submittedAt <= to))
+    .sort(compareReports(filters.sort));
+};
@@ -0,0 +1,211 @@
+import {
+  AlertTriangle,
+  Archive,
+  CheckCircle,
+  Clock,
+  FileVideo,
+  Loader2,
+  LucideIcon,
+  Sparkles,
+  Upload,
+  Wrench,
+} from 'lucide-react';
+import type { AnalysisJobStatus, Report, UploadState } from '@/services/api';
+
+// Every status a report can be in and the moves between them. Nothing else should set
+// `Report.status` directly: go through transitionReport so an illegal move (say, a late
+// poll result turning a closed report back into 'analyzed') is refused in one place.
+
+export type ReportStatus =
+  | 'draft'
+  | 'uploading'
+  | 'queued'
+  | 'analyzing'
+  | 'analyzed'
+  | 'failed'
+  | 'in-progress'
+  | 'resolved'
+  | 'closed';
+
+const TRANSITIONS: Record<ReportStatus, ReportStatus[]> = {
+  // Recorded, and being converted or waiting for the backend to wake up
+  draft: ['uploading', 'failed'],
+  uploading: ['queued', 'failed'],
+  // A fast job can finish between two polls, so 'analyzing' may never be seen
+  queued: ['analyzing', 'analyzed', 'failed'],
+  analyzing: ['analyzed', 'failed'],
+  analyzed: ['in-progress', 'resolved', 'closed'],
+  // Submitting again starts over from the recording
+  failed: ['draft', 'closed'],
+  'in-progress': ['resolved', 'closed'],
+  // Reopened when the fix did not hold
+  resolved: ['in-progress', 'closed'],
+  closed: [],
+};
+
+// Moves the user makes themselves; the rest follow the upload and the analysis job
+const MANUAL_STATUSES: ReportStatus[] = ['in-progress', 'resolved', 'closed'];
+
+export interface ReportStatusDetails {
+  label: string;
+  description: string;
+  icon: LucideIcon;
+  variant: 'default' | 'secondary' | 'destructive' | 'outline';
+  // Label of the button that moves a report into this status, for manual statuses
+  action?: string;
+}
+
+export const REPORT_STATUS_DETAILS: Record<ReportStatus, ReportStatusDetails> = {
+  draft: {
+    label: 'Draft',
+    description: 'Preparing the recording',
+    icon: FileVideo,
+    variant: 'secondary',
+  },
+  uploading: {
+    label: 'Uploading',
+    description: 'Sending the video to the server',
+    icon: Upload,
+    variant: 'secondary',
+  },
+  queued: {
+    label: 'Queued',
+    description: 'Waiting for the analysis to start',
+    icon: Clock,
+    variant: 'secondary',
+  },
+  analyzing: {
+    label: 'Analyzing',
+    description: 'The AI is reviewing the video',
+    icon: Loader2,
+    variant: 'secondary',
+  },
+  analyzed: {
+    label: 'Analyzed',
+    description: 'Diagnosis ready to act on',
+    icon: Sparkles,
+    variant: 'default',
+  },
+  failed: {
+    label: 'Failed',
+    description: 'Upload or analysis did not finish',
+    icon: AlertTriangle,
+    variant: 'destructive',
+  },
+  'in-progress': {
+    label: 'Repair in Progress',
+    description: 'Someone is working on the fix',
+    icon: Wrench,
+    variant: 'default',
+    action: 'Start Repair',
+  },
+  resolved: {
+    label: 'Resolved',
+    description: 'The problem has been fixed',
+    icon: CheckCircle,
+    variant: 'outline',
+    action: 'Mark Resolved',
+  },
+  closed: {
+    label: 'Closed',
+    description: 'No further action needed',
+    icon: Archive,
+    variant: 'outline',
+    action: 'Close',
+  },
+};
+
+// In lifecycle order, for legends and filters
+export const REPORT_STATUSES = Object.keys(TRANSITIONS) as ReportStatus[];
+
+export interface StatusChange {
+  status: ReportStatus;
+  // ISO timestamp
+  at: string;
+}
+
+export const canTransition = (from: ReportStatus, to: ReportStatus): boolean =>
+  from === to || TRANSITIONS[from].includes(to);
+
+// Starts a status history; every later change is appended by transitionReport
+export const initialStatusHistory = (status: ReportStatus, at: Date = new Date()): StatusChange[] => [
+  { status, at: at.toISOString() },
+];
+
+// Returns the report in its new status, or unchanged (with a warning) if the move is not allowed
+export const transitionReport = (report: Report, to: ReportStatus): Report => {
+  if (report.status === to) return report;
+
+  if (!canTransition(report.status, to)) {
+    console.warn(`Ignoring report ${report.id} status change from '${report.status}' to '${to}'`);
+    return report;
+  }
+
+  return {
+    ...report,
+    status: to,
+    statusHistory: [...(report.statusHistory ?? []), { status: to, at: new Date().toISOString() }],
+  };
+};
+
+// Moves only the backend can make: a report this device gave up on (say, the page was closed while
+// the job ran) whose job did finish on the server takes the server's result
+const SERVER_TRANSITIONS: Partial<Record<ReportStatus, ReportStatus[]>> = {
+  failed: ['analyzed'],
+};
+
+export const canReconcile = (from: ReportStatus, to: ReportStatus): boolean =>
+  canTransition(from, to) || (SERVER_TRANSITIONS[from]?.includes(to) ?? false);
+
+// Applies the status of the report's server copy. Unlike transitionReport a move it cannot make is
+// expected (the server does not know about repair progress), so the report is kept without a warning.
+export const reconcileReport = (report: Report, to: ReportStatus): Report => {
+  if (report.status === to || !canReconcile(report.status, to)) return report;
+
+  return {
+    ...report,
+    status: to,
+    statusHistory: [...(report.statusHistory ?? []), { status: to, at: new Date().toISOString() }],
+  };
+};
+
+export const manualTransitions = (status: ReportStatus): ReportStatus[] =>
+  TRANSITIONS[status].filter((next) => MANUAL_STATUSES.includes(next));
+
+// Still moving through upload and analysis on its own
+export const isActiveStatus = (status: ReportStatus): boolean =>
+  status === 'draft' || status === 'uploading' || status === 'queued' || status === 'analyzing';
+
+// Has a finished analysis to show
+export const hasAnalysis = (status: ReportStatus): boolean =>
+  status === 'analyzed' || MANUAL_STATUSES.includes(status);
+
+export const statusForJob = (status: AnalysisJobStatus): ReportStatus => {
+  switch (status) {
+    case 'queued':
+      return 'queued';
+    case 'analyzing':
+      return 'analyzing';
+    case 'completed':
+      return 'analyzed';
+    case 'failed':
+      return 'failed';
+  }
+};
+
+// Converting and waiting for the backend happen before anything is sent, so the report is still a draft
+export const statusForUpload = (state: UploadState): ReportStatus => {
+  switch (state) {
+    case 'preparing':
+    case 'converting':
+    case 'waiting':
+      return 'draft';
+    case 'uploading':
+    case 'paused':
+      return 'uploading';
+    case 'queued':
+      return 'queued';
+    case 'analyzing':
+      return 'analyzing';
+  }
+};
@@ -0,0 +1,257 @@
+import { ArrayBufferTarget, Muxer } from 'mp4-muxer';
+
+// Converts a recording (typically WebM/VP9 from MediaRecorder) into a real H.264/AAC MP4 with
+// WebCodecs and mp4-muxer. Browsers cannot demux WebM for us, so the video is decoded by playing it
+// in a hidden <video> element and encoding each presented frame; the audio track is decoded in one go
+// with Web Audio. Playback runs in real time, so converting takes about as long as the recording.
+// The same pass can downscale and lower the bitrate, which is how lib/compressVideo.ts compresses.
+
+export interface TranscodeOptions {
+  signal?: AbortSignal;
+  // 0-100, based on how much of the recording has been encoded
+  onProgress?: (percentage: number) => void;
+  // Downscale so the shorter side is at most this many pixels (720 for 720p, in portrait or landscape)
+  maxResolution?: number;
+  videoBitrate?: number;
+  audioBitrate?: number;
+  // Aim for a file of about this size; lowers the video bitrate (never raises it) when the duration is known
+  targetBytes?: number;
+}
+
+const VIDEO_BITRATE = 2_500_000;
+const MIN_VIDEO_BITRATE = 250_000;
+const AUDIO_BITRATE = 128_000;
+const AUDIO_SAMPLE_RATE = 48000;
+const AUDIO_FRAMES_PER_CHUNK = 4096;
+const KEYFRAME_INTERVAL_US = 2_000_000;
+
+// High, Main, then Baseline profile; level 4.0 covers 1080p
+const AVC_CODECS = ['avc1.640028', 'avc1.4d0028', 'avc1.420028', 'avc1.42001f'];
+
+export const canTranscodeToMp4 = (): boolean =>
+  typeof VideoEncoder !== 'undefined' &&
+  typeof VideoFrame !== 'undefined' &&
+  typeof HTMLVideoElement !== 'undefined' &&
+  'requestVideoFrameCallback' in HTMLVideoElement.prototype;
+
+const abortError = () => new DOMException('Video conversion was cancelled.', 'AbortError');
+
+// Scales to fit `maxResolution` on the shorter side, keeping dimensions even as H.264 requires
+export const scaledDimensions = (width: number, height: number, maxResolution?: number) => {
+  const scale = maxResolution ? Math.min(1, maxResolution / Math.min(width, height)) : 1;
+  return {
+    width: Math.round(width * scale) & ~1,
+    height: Math.round(height * scale) & ~1,
+  };
+};
+
+// Spreads `targetBytes` over the duration, leaving room for the audio track and container overhead
+export const bitrateForTargetSize = (targetBytes: number, durationSeconds: number, audioBitrate: number): number =>
+  Math.max(MIN_VIDEO_BITRATE, Math.floor(((targetBytes * 8 * 0.95) / durationSeconds) - audioBitrate));
+
+const pickVideoCodec = async (width: number, height: number, bitrate: number): Promise<string> => {
+  for (const codec of AVC_CODECS) {
+    const { supported } = await VideoEncoder.isConfigSupported({ codec, width, height, bitrate });
+    if (supported) return codec;
+  }
+  throw new Error(`This browser cannot encode ${width}x${height} H.264 video`);
+};
+
+const pickAudioCodec = async (
+  numberOfChannels: number,
+  bitrate: number
+): Promise<{ codec: string; muxerCodec: 'aac' | 'opus' } | null> => {
+  if (typeof AudioEncoder === 'undefined') return null;
+
+  const candidates = [
+    { codec: 'mp4a.40.2', muxerCodec: 'aac' as const },
+    { codec: 'opus', muxerCodec: 'opus' as const },
+  ];
+  for (const candidate of candidates) {
+    const { supported } = await AudioEncoder.isConfigSupported({
+      codec: candidate.codec,
+      sampleRate: AUDIO_SAMPLE_RATE,
+      numberOfChannels,
+      bitrate,
+    });
+    if (supported) return candidate;
+  }
+  return null;
+};
+
+// Resolves null for recordings without an audio track
+const decodeAudio = async (blob: Blob): Promise<AudioBuffer | null> => {
+  try {
+    const context = new OfflineAudioContext(1, 1, AUDIO_SAMPLE_RATE);
+    return await context.decodeAudioData(await blob.arrayBuffer());
+  } catch (error) {
+    console.log('No decodable audio track, converting video only:', error);
+    return null;
+  }
+};
+
+const loadVideo = (url: string): Promise<HTMLVideoElement> =>
+  new Promise((resolve, reject) => {
+    const video = document.createElement('video');
+    video.muted = true;
+    video.playsInline = true;
+    video.preload = 'auto';
+    // Frame callbacks only fire for videos that are actually rendered, so keep it in the DOM but invisible
+    video.style.cssText = 'position:fixed;left:0;top:0;width:1px;height:1px;opacity:0;pointer-events:none;';
+    video.onloadedmetadata = () => resolve(video);
+    video.onerror = () => reject(new Error('The recording could not be decoded for conversion'));
+    video.src = url;
+    document.body.appendChild(video);
+  });
+
+const encodeAudio = (buffer: AudioBuffer, encoder: AudioEncoder) => {
+  const { numberOfChannels, sampleRate, length } = buffer;
+
+  for (let offset = 0; offset < length; offset += AUDIO_FRAMES_PER_CHUNK) {
+    const frames = Math.min(AUDIO_FRAMES_PER_CHUNK, length - offset);
+    const data = new Float32Array(frames * numberOfChannels);
+    for (let channel = 0; channel < numberOfChannels; channel++) {
+      data.set(buffer.getChannelData(channel).subarray(offset, offset + frames), channel * frames);
+    }
+
+    const audioData = new AudioData({
+      format: 'f32-planar',
+      sampleRate,
+      numberOfFrames: frames,
+      numberOfChannels,
+      timestamp: Math.round((offset / sampleRate) * 1_000_000),
+      data,
+    });
+    encoder.encode(audioData);
+    audioData.close();
+  }
+};
+
+export const transcodeToMp4 = async (blob: Blob, options: TranscodeOptions = {}): Promise<Blob> => {
+  const { signal, onProgress, maxResolution, audioBitrate = AUDIO_BITRATE, targetBytes } = options;
+  if (signal?.aborted) throw abortError();
+
+  const url = URL.createObjectURL(blob);
+  let video: HTMLVideoElement | null = null;
+  let videoEncoder: VideoEncoder | null = null;
+  let audioEncoder: AudioEncoder | null = null;
+  let encoderError: Error | null = null;
+  const onEncoderError = (error: Error) => {
+    encoderError = error;
+  };
+
+  try {
+    video = await loadVideo(url);
+    const { width, height } = scaledDimensions(video.videoWidth, video.videoHeight, maxResolution);
+    // Frames are drawn onto a canvas of the output size when downscaling
+    const scaleCanvas =
+      width !== (video.videoWidth & ~1) || height !== (video.videoHeight & ~1) ? new OffscreenCanvas(width, height) : null;
+    const scaleContext = scaleCanvas?.getContext('2d') ?? null;
+
+    const audioBuffer = await decodeAudio(blob);
+    // MediaRecorder WebM files often report an Infinity duration; the audio track knows the real one
+    const duration = Number.isFinite(video.duration) ? video.duration : audioBuffer?.duration ?? 0;
+
+    let videoBitrate = options.videoBitrate ?? VIDEO_BITRATE;
+    if (targetBytes && duration > 0) {
+      videoBitrate = Math.min(videoBitrate, bitrateForTargetSize(targetBytes, duration, audioBuffer ? audioBitrate : 0));
+    }
+
+    const audioCodec = audioBuffer ? await pickAudioCodec(audioBuffer.numberOfChannels, audioBitrate) : null;
+    const videoCodec = await pickVideoCodec(width, height, videoBitrate);
+
+    const muxer = new Muxer({
+      target: new ArrayBufferTarget(),
+      video: { codec: 'avc', width, height },
+      audio: audioBuffer && audioCodec
+        ? { codec: audioCodec.muxerCodec, numberOfChannels: audioBuffer.numberOfChannels, sampleRate: AUDIO_SAMPLE_RATE }
+        : undefined,
+      fastStart: 'in-memory',
+      firstTimestampBehavior: 'offset',
+    });
+
+    videoEncoder = new VideoEncoder({
+      output: (chunk, meta) => muxer.addVideoChunk(chunk, meta),
+      error: onEncoderError,
+    });
+    videoEncoder.configure({ codec: videoCodec, width, height, bitrate: videoBitrate, avc: { format: 'avc' } });
+
+    if (audioBuffer && audioCodec) {
+      audioEncoder = new AudioEncoder({
+        output: (chunk, meta) => muxer.addAudioChunk(chunk, meta),
+        error: onEncoderError,
+      });
+      audioEncoder.configure({
+        codec: audioCodec.codec,
+        sampleRate: AUDIO_SAMPLE_RATE,
+        numberOfChannels: audioBuffer.numberOfChannels,
+        bitrate: audioBitrate,
+      });
+      encodeAudio(audioBuffer, audioEncoder);
+    }
+
+    const activeVideo = video;
+    const activeEncoder = videoEncoder;
+
+    await new Promise<void>((resolve, reject) => {
+      let lastTimestamp = -1;
+      let lastKeyFrame = -Infinity;
+
+      const onAbort = () => {
+        activeVideo.pause();
+        reject(abortError());
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      const onFrame = (_now: number, metadata: VideoFrameCallbackMetadata) => {
+        if (signal?.aborted) return;
+        if (encoderError) return reject(encoderError);
+
+        const timestamp = Math.round(metadata.mediaTime * 1_000_000);
+        if (timestamp > lastTimestamp) {
+          if (scaleContext) scaleContext.drawImage(activeVideo, 0, 0, width, height);
+          const frame = new VideoFrame(scaleCanvas ?? activeVideo, { timestamp });
+          const keyFrame = timestamp - lastKeyFrame >= KEYFRAME_INTERVAL_US;
+          activeEncoder.encode(frame, { keyFrame });
+          frame.close();
+          lastTimestamp = timestamp;
+          if (keyFrame) lastKeyFrame = timestamp;
+          if (duration > 0) onProgress?.(Math.min(99, Math.round((metadata.mediaTime / duration) * 100)));
+        }
+
+        if (!activeVideo.ended) activeVideo.requestVideoFrameCallback(onFrame);
+      };
+
+      activeVideo.onended = () => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      };
+      activeVideo.requestVideoFrameCallback(onFrame);
+      activeVideo.play().catch(reject);
+    });
+
+    await videoEncoder.flush();
+    await audioEncoder?.flush();
+    if (encoderError) throw encoderError;
+
+    muxer.finalize();
+    onProgress?.(100);
+
+    const mp4 = new Blob([muxer.target.buffer], { type: 'video/mp4' });
+    console.log('Converted recording to MP4:', {
+      from: blob.type,
+      fromSize: blob.size,
+      toSize: mp4.size,
+      videoCodec,
+      videoBitrate,
+      width,
+      height,
+    });
+    return mp4;
+  } finally {
+    if (videoEncoder && videoEncoder.state !== 'closed') videoEncoder.close();
+    if (audioEncoder && audioEncoder.state !== 'closed') audioEncoder.close();
+    video?.remove();
+    URL.revokeObjectURL(url);
+  }
+};
@@ -0,0 +1,32 @@
+// Recording containers the app knows about, most preferred first. MP4 comes first because the
+// backend can take it as is; WebM recordings are converted to MP4 before upload when required
+// (see lib/transcodeToMp4.ts and `uploadContainer` in lib/config.ts).
+export const RECORDING_MIME_TYPES = [
+  'video/mp4;codecs=avc1,mp4a',
+  'video/mp4',
+  'video/webm;codecs=vp9',
+  'video/webm;codecs=vp8',
+  'video/webm',
+  'video/ogg;codecs=theora',
+  'video/ogg',
+];
+
+const EXTENSIONS: Record<string, string> = {
+  'video/mp4': 'mp4',
+  'video/webm': 'webm',
+  'video/ogg': 'ogv',
+  'video/quicktime': 'mov',
+};
+
+// 'video/webm;codecs=vp9' -> 'video/webm'
+export const baseMimeType = (mimeType: string): string => mimeType.split(';')[0].trim().toLowerCase();
+
+export const isMp4 = (mimeType: string): boolean => baseMimeType(mimeType) === 'video/mp4';
+
+export const extensionForMimeType = (mimeType: string): string => EXTENSIONS[baseMimeType(mimeType)] ?? 'bin';
+
+// Gives a recording a file name and type that match its actual container
+export const toVideoFile = (blob: Blob, name = 'recording'): File => {
+  const mimeType = baseMimeType(blob.type) || 'video/webm';
+  return new File([blob], `${name}.${extensionForMimeType(mimeType)}`, { type: mimeType });
+};
@@ -1,5 +1,25 @@
 import { createRoot } from 'react-dom/client'
 import App from './App.tsx'
+import { ConfigErrorScreen } from './components/ConfigErrorScreen.tsx'
+import { loadConfig } from './lib/config.ts'
+import { apiService } from './services/api.ts'
+import { createMockTransport, readMockOptions } from './services/mockTransport.ts'
 import './index.css'
 
-createRoot(document.getElementById("root")!).render(<App />);
+const root = createRoot(document.getElementById("root")!);
+
+loadConfig().then((result) => {
+  if (!result.config) {
+    console.error('Invalid app configuration:', result.issues);
+    root.render(<ConfigErrorScreen issues={result.issues} />);
+    return;
+  }
+
+  apiService.configure(
+    result.config,
+    result.config.mockApi ? createMockTransport(readMockOptions()) : undefined
+  );
+  // Free-tier hosting puts the backend to sleep when idle; start waking it before anyone records
+  apiService.warmUp();
+  root.render(<App />);
+});
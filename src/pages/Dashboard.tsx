@@ -1,24 +1,77 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { Navbar } from '@/components/Navbar';
 import { VideoRecorder } from '@/components/VideoRecorder';
+import { UploadProgressBar } from '@/components/UploadProgressBar';
+import { StreamingAnalysis } from '@/components/StreamingAnalysis';
+import { WarmupBanner } from '@/components/WarmupBanner';
+import { StorageUsageCard } from '@/components/StorageUsageCard';
+import { ReportStatusBadge } from '@/components/ReportStatusBadge';
+import { ReportFiltersBar } from '@/components/ReportFiltersBar';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { 
   Video, 
-  Clock, 
-  CheckCircle, 
   AlertTriangle,
   FileText,
   Calendar,
   RefreshCw,
   Eye,
   Wifi,
-  WifiOff
+  WifiOff,
+  FlaskConical,
+  ShieldAlert,
+  Loader2,
+  RotateCcw,
+  Search,
+  Trash2
 } from 'lucide-react';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { ToastAction } from '@/components/ui/toast';
 import { useToast } from '@/hooks/use-toast';
-import { apiService, Report, VideoAnalysisResponse } from '@/services/api';
+import { useCircuitBreaker } from '@/hooks/use-circuit-breaker';
+import { useBackendWarmup } from '@/hooks/use-backend-warmup';
+import { useDeleteReport, useReports } from '@/hooks/use-reports';
+import { useReportFilters } from '@/hooks/use-report-filters';
+import { getErrorRecovery } from '@/lib/errorRecovery';
+import { filterReports, hasActiveFilters, reportCategories } from '@/lib/reportFilters';
+import {
+  canTransition,
+  initialStatusHistory,
+  isActiveStatus,
+  REPORT_STATUS_DETAILS,
+  REPORT_STATUSES,
+  ReportStatus,
+  statusForJob,
+  statusForUpload,
+  transitionReport,
+} from '@/lib/reportLifecycle';
+import {
+  apiService,
+  Report,
+  UploadStatus,
+  AnalysisStreamCallbacks,
+  ConnectionStatus,
+  VideoAnalysisResponse,
+  VideoUploadHandle,
+} from '@/services/api';
+import { ContractViolationError, UploadCancelledError } from '@/services/errors';
+import { pendingJobs } from '@/services/pendingJobs';
+import { reportStore } from '@/services/reportStore';
+import { mergeServerReports } from '@/services/reportSync';
+
+const REPORT_SAVE_DELAY = 500;
 
 const Dashboard = () => {
   const navigate = useNavigate();
@@ -26,17 +79,172 @@ const Dashboard = () => {
   const [isAuthenticated] = useState(true); // In a real app, this would come from auth context
   const [reports, setReports] = useState<Report[]>([]);
   const [isLoading, setIsLoading] = useState(false);
-  const [selectedReport, setSelectedReport] = useState<Report | null>(null);
-  const [showAnalysis, setShowAnalysis] = useState(false);
-  const [isBackendConnected, setIsBackendConnected] = useState<boolean | null>(null);
+  const [connectionStatus, setConnectionStatus] = useState<ConnectionStatus | null>(null);
+  const [uploadStatuses, setUploadStatuses] = useState<Record<string, UploadStatus>>({});
+  const [activeUploadId, setActiveUploadId] = useState<string | null>(null);
+  const [hasRestoredReports, setHasRestoredReports] = useState(false);
+  const uploadHandlesRef = useRef<Record<string, VideoUploadHandle>>({});
+  const savedReportIdsRef = useRef<Set<string>>(new Set());
+  const latestReportsRef = useRef<Report[]>([]);
+  const retryBlobsRef = useRef<Map<string, Blob>>(new Map());
+  // Reports whose server delete is still in flight, kept so a refused delete can put them back
+  const pendingDeletesRef = useRef<Map<string, Report>>(new Map());
+  const isUnmountedRef = useRef(false);
+  const circuit = useCircuitBreaker();
+  const warmup = useBackendWarmup();
+  // Asking a sleeping backend for its reports would only trip the circuit breaker
+  const serverReports = useReports({ enabled: warmup.state === 'ready' });
+  const deleteReport = useDeleteReport();
+  const { filters, updateFilters, clearFilters } = useReportFilters();
+  const [pendingNavigation, setPendingNavigation] = useState<string | null>(null);
+  // Until the analysis job exists nothing is recorded to pick the upload up again after leaving
+  const activeUploadState = activeUploadId ? uploadStatuses[activeUploadId]?.state : undefined;
+  const isSendingVideo = activeUploadState !== undefined &&
+    ['draft', 'uploading'].includes(statusForUpload(activeUploadState));
+  const visibleReports = useMemo(() => filterReports(reports, filters), [reports, filters]);
+  const categories = useMemo(() => reportCategories(reports), [reports]);
+
+  const updateReport = useCallback((reportId: string, update: (report: Report) => Partial<Report>) => {
+    setReports(prev => prev.map(report =>
+      report.id === reportId ? { ...report, ...update(report) } : report
+    ));
+  }, []);
+
+  const moveReport = useCallback((reportId: string, status: ReportStatus) => {
+    setReports(prev => prev.map(report =>
+      report.id === reportId ? transitionReport(report, status) : report
+    ));
+  }, []);
+
+  const streamCallbacks = useCallback((reportId: string): AnalysisStreamCallbacks => ({
+    onAnalysisDelta: (text) => updateReport(reportId, () => ({ analysis: text, analysisStreamState: 'streaming' })),
+    // Only worth flagging an interrupted stream if some text had already been shown
+    onStreamEnd: (outcome) => updateReport(reportId, (report) => (
+      report.analysis ? { analysisStreamState: outcome } : {}
+    )),
+  }), [updateReport]);
+
+  // Stop polling when leaving the dashboard; jobs already submitted are picked up again on return, and
+  // an upload cut short resumes from where it stopped when the recording is submitted again
+  useEffect(() => {
+    const uploadHandles = uploadHandlesRef.current;
+    return () => {
+      isUnmountedRef.current = true;
+      Object.values(uploadHandles).forEach(handle => handle.detach());
+    };
+  }, []);
+
+  // The browser's own prompt covers reloads and closing the tab
+  useEffect(() => {
+    if (!isSendingVideo) return;
+
+    const warnBeforeUnload = (event: BeforeUnloadEvent) => {
+      event.preventDefault();
+      event.returnValue = '';
+    };
+    window.addEventListener('beforeunload', warnBeforeUnload);
+    return () => window.removeEventListener('beforeunload', warnBeforeUnload);
+  }, [isSendingVideo]);
+
+  // Restore the report history saved on this device
+  useEffect(() => {
+    reportStore.list()
+      .then(stored => {
+        savedReportIdsRef.current = new Set(stored.map(report => report.id));
+        const runningJobs = new Set(pendingJobs.list().map(job => job.reportId));
+
+        setReports(prev => {
+          const restored = stored.map((report): Report => {
+            // Already picked up from pendingJobs: keep the saved report (its history and recording) and
+            // bring it up to date with what the job has done since
+            const running = prev.find(existing => existing.id === report.id);
+            if (running) {
+              return {
+                // The saved status may already be ahead of the 'queued' the job was picked up in
+                ...(canTransition(report.status, running.status) ? transitionReport(report, running.status) : report),
+                jobId: running.jobId,
+                analysis: running.analysis ?? report.analysis,
+                analysisDate: running.analysisDate ?? report.analysisDate,
+                structured: running.structured ?? report.structured,
+                analysisStreamState: running.analysisStreamState ?? report.analysisStreamState,
+              };
+            }
+
+            // An upload that was cut off by the reload cannot be picked up again; its job never started
+            return isActiveStatus(report.status) && !runningJobs.has(report.id)
+              ? transitionReport(report, 'failed')
+              : report;
+          });
+
+          return [
+            ...prev.filter(existing => !stored.some(report => report.id === existing.id)),
+            ...restored,
+          ].sort((a, b) => b.submittedAt.getTime() - a.submittedAt.getTime());
+        });
+      })
+      .catch(error => console.error('Failed to restore saved reports:', error))
+      .finally(() => setHasRestoredReports(true));
+  }, []);
+
+  // Mirror the history into IndexedDB. Debounced, since a streaming analysis updates its report many times a second.
+  useEffect(() => {
+    latestReportsRef.current = reports;
+    if (!hasRestoredReports) return;
+
+    const timeoutId = setTimeout(() => {
+      const currentIds = new Set(reports.map(report => report.id));
+      // The saved copy and its recording stay until the server confirms a delete
+      const removedIds = [...savedReportIdsRef.current]
+        .filter(id => !currentIds.has(id) && !pendingDeletesRef.current.has(id));
+      savedReportIdsRef.current = currentIds;
+
+      Promise.all([reportStore.save(reports), reportStore.remove(removedIds)])
+        .catch(error => console.error('Failed to save reports:', error));
+    }, REPORT_SAVE_DELAY);
+
+    return () => clearTimeout(timeoutId);
+  }, [reports, hasRestoredReports]);
 
-  // Test backend connection on component mount
+  // Keep the history in step with the backend's copy, once the local one has been restored
   useEffect(() => {
+    if (!hasRestoredReports || !serverReports.data) return;
+    setReports(prev => mergeServerReports(prev, serverReports.data));
+  }, [serverReports.data, hasRestoredReports]);
+
+  // Flush whatever the debounce had not written yet when leaving the dashboard
+  useEffect(() => {
+    return () => {
+      reportStore.save(latestReportsRef.current)
+        .catch(error => console.error('Failed to save reports:', error));
+    };
+  }, []);
+
+  // Test the backend connection once the warm-up started on app load has settled, so a sleeping
+  // free-tier instance shows the warm-up banner rather than a connection failure
+  useEffect(() => {
+    let isCancelled = false;
+
     const testConnection = async () => {
       try {
-        const isConnected = await apiService.testConnection();
-        setIsBackendConnected(isConnected);
-        if (!isConnected) {
+        await apiService.warmUp();
+        if (isCancelled) return;
+
+        if (apiService.warmup.state === 'unavailable') {
+          setConnectionStatus('disconnected');
+          toast({
+            title: "Backend Connection Failed",
+            description: apiService.warmup.reason === 'offline'
+              ? "You appear to be offline. Reconnect to submit reports for analysis."
+              : "The video analysis service did not respond after waiting for it to start. Please try again later.",
+            variant: "destructive",
+          });
+          return;
+        }
+
+        const status = await apiService.testConnection();
+        if (isCancelled) return;
+        setConnectionStatus(status);
+        if (status === 'disconnected') {
           toast({
             title: "Backend Connection Failed",
             description: "Unable to connect to the video analysis service. Please check if the backend is running.",
@@ -44,7 +252,7 @@ const Dashboard = () => {
           });
         }
       } catch (error) {
-        setIsBackendConnected(false);
+        setConnectionStatus('disconnected');
         toast({
           title: "Connection Error",
           description: "Failed to connect to the backend service.",
@@ -54,91 +262,414 @@ const Dashboard = () => {
     };
 
     testConnection();
+    return () => {
+      isCancelled = true;
+    };
   }, [toast]);
 
-  const handleVideoSubmit = async (videoBlob: Blob, description: string): Promise<void> => {
+  // Pick up analysis jobs that were still running when the user last left the dashboard
+  useEffect(() => {
+    const restored = pendingJobs.list();
+    if (restored.length === 0) return;
+
+    const controller = new AbortController();
+
+    setReports(prev => [
+      ...restored
+        .filter(job => !prev.some(report => report.id === job.reportId))
+        .map((job): Report => ({
+          id: job.reportId,
+          description: job.description,
+          status: 'queued',
+          statusHistory: initialStatusHistory('queued', new Date(job.submittedAt)),
+          submittedAt: new Date(job.submittedAt),
+          videoSize: job.videoSize,
+          jobId: job.jobId,
+        })),
+      ...prev,
+    ]);
+
+    restored.forEach(job => {
+      const bytesTotal = job.videoSize * 1024 * 1024;
+      const setJobState = (state: UploadStatus['state']) => {
+        setUploadStatuses(prev => ({
+          ...prev,
+          [job.reportId]: { state, progress: { bytesUploaded: bytesTotal, bytesTotal, percentage: 100 } },
+        }));
+      };
+      setJobState('queued');
+
+      apiService
+        .waitForAnalysisJob(job.jobId, {
+          ...streamCallbacks(job.reportId),
+          signal: controller.signal,
+          onStatusChange: (status) => {
+            moveReport(job.reportId, statusForJob(status));
+            if (status === 'queued' || status === 'analyzing') setJobState(status);
+          },
+        })
+        .then(response => {
+          pendingJobs.remove(job.reportId);
+          setReports(prev => prev.map(report =>
+            report.id === job.reportId
+              ? {
+                  ...transitionReport(report, 'analyzed'),
+                  analysis: response.data.analysis,
+                  analysisDate: response.data.analysisDate,
+                  structured: response.data.structured,
+                  analysisStreamState: report.analysisStreamState ? 'finished' as const : undefined,
+                }
+              : report
+          ));
+          toast({
+            title: "Analysis Complete!",
+            description: "A report you submitted earlier has finished analyzing.",
+          });
+        })
+        .catch(error => {
+          // Unmounting aborts polling; the job stays pending for next time
+          if (error instanceof UploadCancelledError) return;
+
+          pendingJobs.remove(job.reportId);
+          moveReport(job.reportId, 'failed');
+          const recovery = getErrorRecovery(error);
+          toast({
+            title: recovery.title,
+            description: recovery.description,
+            variant: "destructive",
+          });
+        })
+        .finally(() => {
+          if (controller.signal.aborted) return;
+          setUploadStatuses(prev => {
+            const { [job.reportId]: _finished, ...rest } = prev;
+            return rest;
+          });
+        });
+    });
+
+    return () => controller.abort();
+  }, [toast, streamCallbacks, moveReport]);
+
+  // Uploads the recording for a draft report and follows it through analysis. On failure the report is
+  // marked failed and its recording kept for handleRetryReport; the error is passed on to the caller.
+  const submitReport = async (draft: Report, videoBlob: Blob, { isRetry = false } = {}): Promise<void> => {
     setIsLoading(true);
     try {
-      // Create a temporary report with pending status
-      const tempReport: Report = {
-        id: Date.now().toString(),
-        description,
-        status: 'pending',
-        submittedAt: new Date(),
-        videoSize: videoBlob.size / (1024 * 1024) // Convert to MB
+      // Upload video to backend for analysis
+      const updateUploadStatus = (update: Partial<UploadStatus>) => {
+        setUploadStatuses(prev => ({
+          ...prev,
+          [draft.id]: { ...prev[draft.id], ...update },
+        }));
       };
-      
-      setReports(prev => [tempReport, ...prev]);
 
-      // Upload video to backend for analysis
-      const response: VideoAnalysisResponse = await apiService.uploadVideoForAnalysis(videoBlob, description);
-      
-      if (response.success) {
-        // Update the report with analysis results
-        const updatedReport: Report = {
-          ...tempReport,
-          status: 'completed',
-          analysis: response.data.analysis,
-          analysisDate: response.data.analysisDate
-        };
-        
-        setReports(prev => prev.map(report => 
-          report.id === tempReport.id ? updatedReport : report
-        ));
+      // Conversion before upload can change the size, so track what is actually sent
+      let uploadedSizeMb = draft.videoSize;
 
-        toast({
-          title: "Analysis Complete!",
-          description: "Your video has been analyzed successfully. View the results below.",
-        });
-      } else {
-        // Update report status to indicate failure
-        setReports(prev => prev.map(report => 
-          report.id === tempReport.id 
-            ? { ...report, status: 'reviewing' as const }
-            : report
-        ));
+      const upload = apiService.createVideoUpload(videoBlob, draft.description, {
+        ...streamCallbacks(draft.id),
+        onProgress: (progress) => {
+          updateUploadStatus({ progress });
+          const sizeMb = progress.bytesTotal / (1024 * 1024);
+          if (sizeMb !== uploadedSizeMb) {
+            uploadedSizeMb = sizeMb;
+            updateReport(draft.id, () => ({ videoSize: sizeMb }));
+          }
+        },
+        onStateChange: (state) => {
+          updateUploadStatus({ state });
+          moveReport(draft.id, statusForUpload(state));
+        },
+        onJobCreated: (jobId) => {
+          pendingJobs.save({
+            reportId: draft.id,
+            jobId,
+            description: draft.description,
+            submittedAt: draft.submittedAt.toISOString(),
+            videoSize: uploadedSizeMb,
+          });
+          setReports(prev => prev.map(report =>
+            report.id === draft.id ? { ...report, jobId } : report
+          ));
+        },
+      });
+      uploadHandlesRef.current[draft.id] = upload;
+      setUploadStatuses(prev => ({
+        ...prev,
+        [draft.id]: { state: upload.state, progress: upload.progress },
+      }));
+      setActiveUploadId(draft.id);
 
-        toast({
-          title: "Analysis Failed",
-          description: response.message || "Failed to analyze video. Please try again.",
-          variant: "destructive",
+      let response: VideoAnalysisResponse;
+      try {
+        response = await upload.result;
+      } catch (error) {
+        // Leaving the page is not a real cancel; the job stays pending for the next visit
+        if (error instanceof UploadCancelledError && isUnmountedRef.current) throw error;
+
+        pendingJobs.remove(draft.id);
+        if (error instanceof UploadCancelledError) {
+          if (isRetry) {
+            // Cancelling a retry leaves the report as it was before
+            moveReport(draft.id, 'failed');
+          } else {
+            retryBlobsRef.current.delete(draft.id);
+            setReports(prev => prev.filter(report => report.id !== draft.id));
+            reportStore.remove([draft.id])
+              .catch(removeError => console.error('Failed to delete the cancelled report:', removeError));
+          }
+          toast({
+            title: "Upload Cancelled",
+            description: "Your recording is still here if you want to submit it again.",
+          });
+        }
+        throw error;
+      } finally {
+        delete uploadHandlesRef.current[draft.id];
+        setUploadStatuses(prev => {
+          const { [draft.id]: _finished, ...rest } = prev;
+          return rest;
         });
+        setActiveUploadId(current => (current === draft.id ? null : current));
       }
-    } catch (error) {
-      console.error('Video submission error:', error);
-      
-      // Update report status to indicate failure
+
+      pendingJobs.remove(draft.id);
+      retryBlobsRef.current.delete(draft.id);
+
+      // Update the report with analysis results
       setReports(prev => prev.map(report => 
-        report.id === Date.now().toString()
-          ? { ...report, status: 'reviewing' as const }
+        report.id === draft.id
+          ? {
+              ...transitionReport(report, 'analyzed'),
+              analysis: response.data.analysis,
+              analysisDate: response.data.analysisDate,
+              structured: response.data.structured,
+              analysisStreamState: report.analysisStreamState ? 'finished' as const : undefined
+            }
           : report
       ));
 
+      // A recording that was only kept so the report could be retried is no longer needed
+      if (!reportStore.keepVideos) {
+        reportStore.removeVideo(draft.id)
+          .then(() => updateReport(draft.id, () => ({ hasVideo: false })))
+          .catch(error => console.error('Failed to delete the recording kept for retrying:', error));
+      }
+
       toast({
-        title: "Upload Failed",
-        description: error instanceof Error ? error.message : "Failed to upload video. Please try again.",
+        title: "Analysis Complete!",
+        description: "Your video has been analyzed successfully. View the results below.",
+      });
+    } catch (error) {
+      // The recorder keeps the recording around when the user cancels
+      if (error instanceof UploadCancelledError) throw error;
+
+      console.error('Video submission error:', error);
+
+      if (error instanceof ContractViolationError) {
+        setConnectionStatus('degraded');
+      }
+      
+      // Update report status to indicate failure, keeping the recording so it can be retried
+      moveReport(draft.id, 'failed');
+      keepForRetry(draft.id, videoBlob);
+
+      const recovery = getErrorRecovery(error);
+      toast({
+        title: recovery.title,
+        description: recovery.description,
         variant: "destructive",
+        action: recovery.actions.includes('sign-in') ? (
+          <ToastAction altText="Sign in again" onClick={handleSignOut}>
+            Sign In
+          </ToastAction>
+        ) : recovery.actions.includes('check-connection') ? (
+          <ToastAction altText="Test the backend connection" onClick={handleTestConnection}>
+            Test Connection
+          </ToastAction>
+        ) : undefined,
       });
+
+      throw error;
     } finally {
       setIsLoading(false);
     }
   };
 
-  const handleViewAnalysis = (report: Report) => {
-    setSelectedReport(report);
-    setShowAnalysis(true);
+  // Keeps the recording of a failed report in memory and, so a retry also works after a reload, on the device
+  const keepForRetry = (reportId: string, videoBlob: Blob) => {
+    retryBlobsRef.current.set(reportId, videoBlob);
+    reportStore.saveVideo(reportId, videoBlob)
+      .then(() => updateReport(reportId, () => ({ hasVideo: true })))
+      .catch(error => console.error('Failed to keep the recording for retrying:', error));
+  };
+
+  const handleVideoSubmit = async (videoBlob: Blob, description: string): Promise<void> => {
+    // The recorder offers its own retry for the recording it still holds; resubmit the failed report
+    // rather than adding a second one
+    const failed = reports.find(report =>
+      report.status === 'failed' && retryBlobsRef.current.get(report.id) === videoBlob
+    );
+    if (failed) {
+      return retryReport(failed, videoBlob);
+    }
+
+    // Create a draft report; it follows the upload and the analysis from here
+    const draft: Report = {
+      id: Date.now().toString(),
+      description,
+      status: 'draft',
+      statusHistory: initialStatusHistory('draft'),
+      submittedAt: new Date(),
+      videoSize: videoBlob.size / (1024 * 1024) // Convert to MB
+    };
+
+    setReports(prev => [draft, ...prev]);
+
+    if (reportStore.keepVideos) {
+      reportStore.saveVideo(draft.id, videoBlob)
+        .then(() => updateReport(draft.id, () => ({ hasVideo: true })))
+        .catch(error => console.error('Failed to keep the recording on this device:', error));
+    }
+
+    // Let the recorder show its own recovery options for an error
+    await submitReport(draft, videoBlob);
+  };
+
+  const retryReport = async (report: Report, videoBlob: Blob): Promise<void> => {
+    // The failed attempt may have left a report on the backend; the retry creates a new one
+    if (report.serverId) {
+      deleteReport.mutate(report.serverId);
+    }
+
+    const draft: Report = {
+      ...transitionReport(report, 'draft'),
+      jobId: undefined,
+      serverId: undefined,
+      analysis: undefined,
+      analysisDate: undefined,
+      analysisStreamState: undefined,
+    };
+    setReports(prev => prev.map(existing => (existing.id === report.id ? draft : existing)));
+
+    await submitReport(draft, videoBlob, { isRetry: true });
+  };
+
+  const handleRetryReport = async (report: Report) => {
+    try {
+      const videoBlob = retryBlobsRef.current.get(report.id) ?? await reportStore.getVideo(report.id);
+      if (!videoBlob) {
+        updateReport(report.id, () => ({ hasVideo: false }));
+        toast({
+          title: "Recording Not Found",
+          description: "The video for this report is no longer saved on this device. Please record it again.",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      await retryReport(report, videoBlob);
+    } catch (error) {
+      // submitReport has already marked the report and told the user what went wrong
+      console.log('Retry did not succeed:', error);
+    }
+  };
+
+  const handlePauseUpload = (reportId: string) => {
+    uploadHandlesRef.current[reportId]?.pause();
+  };
+
+  const handleResumeUpload = (reportId: string) => {
+    uploadHandlesRef.current[reportId]?.resume();
+  };
+
+  const handleCancelUpload = (reportId: string) => {
+    uploadHandlesRef.current[reportId]?.cancel();
+  };
+
+  // Leaving unmounts the dashboard and stops its uploads, so ask first while one is still sending
+  const leaveDashboard = (to: string) => {
+    if (isSendingVideo) {
+      setPendingNavigation(to);
+    } else {
+      navigate(to);
+    }
+  };
+
+  const handleViewReport = (report: Report) => {
+    leaveDashboard(`/reports/${encodeURIComponent(report.id)}`);
+  };
+
+  const handleDeleteReport = (report: Report) => {
+    retryBlobsRef.current.delete(report.id);
+
+    // Never reached the backend, so there is only the local copy to remove
+    if (!report.serverId) {
+      setReports(prev => prev.filter(existing => existing.id !== report.id));
+      return;
+    }
+
+    // The cached list drops the report straight away, and the sync effect takes it out of the history
+    pendingDeletesRef.current.set(report.id, report);
+    deleteReport.mutate(report.serverId, {
+      onSuccess: () => {
+        pendingDeletesRef.current.delete(report.id);
+        reportStore.remove([report.id])
+          .catch(error => console.error('Failed to remove saved report:', error));
+      },
+      onError: (error) => {
+        pendingDeletesRef.current.delete(report.id);
+        // Put the local copy back, replacing the bare server copy the sync may have re-added meanwhile
+        setReports(prev => [
+          ...prev.filter(existing => existing.id !== report.id && existing.serverId !== report.serverId),
+          report,
+        ].sort((a, b) => b.submittedAt.getTime() - a.submittedAt.getTime()));
+        console.error('Failed to delete report:', error);
+        const recovery = getErrorRecovery(error);
+        toast({
+          title: "Could Not Delete Report",
+          description: recovery.description,
+          variant: "destructive",
+        });
+      },
+    });
+  };
+
+  const handleClearVideos = async () => {
+    try {
+      await reportStore.clearVideos();
+      setReports(prev => prev.map(report => (report.hasVideo ? { ...report, hasVideo: false } : report)));
+      toast({
+        title: "Saved Videos Deleted",
+        description: "Your reports and their analyses are still kept on this device.",
+      });
+    } catch (error) {
+      console.error('Failed to delete saved videos:', error);
+      toast({
+        title: "Could Not Delete Videos",
+        description: "The browser refused to clear local storage. Please try again.",
+        variant: "destructive",
+      });
+    }
   };
 
   const handleTestConnection = async () => {
     try {
-      const isConnected = await apiService.testConnection();
-      setIsBackendConnected(isConnected);
+      const status = await apiService.testConnection();
+      setConnectionStatus(status);
       
-      if (isConnected) {
+      if (status === 'connected') {
         toast({
           title: "Connection Successful",
           description: "Backend service is running and ready for video analysis.",
         });
+      } else if (status === 'degraded') {
+        toast({
+          title: "Unexpected Response",
+          description: "The backend is reachable but returned data this app does not understand.",
+          variant: "destructive",
+        });
       } else {
         toast({
           title: "Connection Failed",
@@ -147,7 +678,7 @@ const Dashboard = () => {
         });
       }
     } catch (error) {
-      setIsBackendConnected(false);
+      setConnectionStatus('disconnected');
       toast({
         title: "Connection Error",
         description: "Failed to test backend connection.",
@@ -156,28 +687,6 @@ const Dashboard = () => {
     }
   };
 
-  const getStatusIcon = (status: Report['status']) => {
-    switch (status) {
-      case 'pending':
-        return <Clock className="h-4 w-4" />;
-      case 'reviewing':
-        return <AlertTriangle className="h-4 w-4" />;
-      case 'completed':
-        return <CheckCircle className="h-4 w-4" />;
-    }
-  };
-
-  const getStatusVariant = (status: Report['status']) => {
-    switch (status) {
-      case 'pending':
-        return 'secondary' as const;
-      case 'reviewing':
-        return 'default' as const;
-      case 'completed':
-        return 'outline' as const;
-    }
-  };
-
   const formatDate = (date: Date) => {
     return new Intl.DateTimeFormat('en-US', {
       month: 'short',
@@ -188,7 +697,7 @@ const Dashboard = () => {
   };
 
   const handleSignOut = () => {
-    navigate('/');
+    leaveDashboard('/');
   };
 
   return (
@@ -196,6 +705,7 @@ const Dashboard = () => {
       <Navbar 
         isAuthenticated={isAuthenticated} 
         onSignOut={handleSignOut} 
+        onNavigate={leaveDashboard}
       />
       <div className="max-w-6xl mx-auto px-4 py-8">
         <div className="mb-8">
@@ -204,13 +714,39 @@ const Dashboard = () => {
               Report Dashboard
             </h1>
             <div className="flex items-center space-x-2">
-              {isBackendConnected !== null && (
-                <Badge variant={isBackendConnected ? "outline" : "destructive"}>
-                  {isBackendConnected ? (
+              {apiService.isMocked && (
+                <Badge variant="secondary" title="Requests are answered in the browser by the mock backend">
+                  <FlaskConical className="h-3 w-3 mr-1" />
+                  Mock API
+                </Badge>
+              )}
+              {circuit.state !== 'closed' && (
+                <Badge
+                  variant={circuit.state === 'open' ? "destructive" : "secondary"}
+                  title={`Circuit breaker ${circuit.state} after ${circuit.failures} failed requests`}
+                >
+                  <ShieldAlert className="h-3 w-3 mr-1" />
+                  {circuit.state === 'open' ? 'Requests Paused' : 'Reconnecting'}
+                </Badge>
+              )}
+              {warmup.state === 'warming' && connectionStatus === null && (
+                <Badge variant="secondary">
+                  <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+                  Waking Up
+                </Badge>
+              )}
+              {connectionStatus !== null && (
+                <Badge variant={connectionStatus === 'disconnected' ? "destructive" : connectionStatus === 'degraded' ? "secondary" : "outline"}>
+                  {connectionStatus === 'connected' ? (
                     <>
                       <Wifi className="h-3 w-3 mr-1" />
                       Connected
                     </>
+                  ) : connectionStatus === 'degraded' ? (
+                    <>
+                      <AlertTriangle className="h-3 w-3 mr-1" />
+                      Degraded
+                    </>
                   ) : (
                     <>
                       <WifiOff className="h-3 w-3 mr-1" />
@@ -233,12 +769,44 @@ const Dashboard = () => {
           <p className="text-muted-foreground">
             Record and submit video reports for residential problems
           </p>
+
+          <WarmupBanner status={warmup} />
+
+          {circuit.state === 'open' && (
+            <Alert variant="destructive" className="mt-4">
+              <ShieldAlert className="h-4 w-4" />
+              <AlertTitle>Requests to the analysis service are paused</AlertTitle>
+              <AlertDescription>
+                Several requests failed in a row, so the app is giving the service a moment to recover.
+                It will try again at {new Date(circuit.retryAt).toLocaleTimeString()}, or use Test Connection to try now.
+                Your recordings are kept.
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {connectionStatus === 'degraded' && (
+            <Alert className="mt-4">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertTitle>Analysis service is in a degraded state</AlertTitle>
+              <AlertDescription>
+                The backend is responding, but not in the format this app expects. You can keep recording;
+                analyses may fail or be incomplete until the service is updated.
+              </AlertDescription>
+            </Alert>
+          )}
         </div>
 
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
           {/* Video Recorder Section */}
           <div className="lg:col-span-2">
-            <VideoRecorder onVideoSubmit={handleVideoSubmit} />
+            <VideoRecorder
+              onVideoSubmit={handleVideoSubmit}
+              limits={apiService.recordingLimits}
+              uploadStatus={activeUploadId ? uploadStatuses[activeUploadId] : null}
+              onPauseUpload={() => activeUploadId && handlePauseUpload(activeUploadId)}
+              onResumeUpload={() => activeUploadId && handleResumeUpload(activeUploadId)}
+              onCancelUpload={() => activeUploadId && handleCancelUpload(activeUploadId)}
+            />
           </div>
 
           {/* Reports History */}
@@ -250,12 +818,28 @@ const Dashboard = () => {
                     <FileText className="h-5 w-5 mr-2" />
                     Recent Reports
                   </div>
-                  {isLoading && (
+                  {(isLoading || serverReports.isFetching) && (
                     <RefreshCw className="h-4 w-4 animate-spin" />
                   )}
                 </CardTitle>
               </CardHeader>
               <CardContent>
+                {reports.length > 0 && (
+                  <div className="mb-4 space-y-2">
+                    <ReportFiltersBar
+                      filters={filters}
+                      categories={categories}
+                      onChange={updateFilters}
+                      onClear={clearFilters}
+                    />
+                    {hasActiveFilters(filters) && (
+                      <p className="text-xs text-muted-foreground">
+                        Showing {visibleReports.length} of {reports.length} reports
+                      </p>
+                    )}
+                  </div>
+                )}
+
                 {reports.length === 0 ? (
                   <div className="text-center py-8">
                     <Video className="h-12 w-12 text-muted-foreground mx-auto mb-3" />
@@ -263,18 +847,25 @@ const Dashboard = () => {
                       No reports yet. Record your first video to get started!
                     </p>
                   </div>
+                ) : visibleReports.length === 0 ? (
+                  <div className="text-center py-8">
+                    <Search className="h-12 w-12 text-muted-foreground mx-auto mb-3" />
+                    <p className="text-muted-foreground mb-3">
+                      No reports match these filters.
+                    </p>
+                    <Button variant="outline" size="sm" onClick={clearFilters}>
+                      Clear Filters
+                    </Button>
+                  </div>
                 ) : (
                   <div className="space-y-4">
-                    {reports.map((report) => (
+                    {visibleReports.map((report) => (
                       <div
                         key={report.id}
                         className="p-4 border border-border rounded-lg hover:bg-muted/50 transition-colors"
                       >
                         <div className="flex items-start justify-between mb-2">
-                          <Badge variant={getStatusVariant(report.status)} className="mb-2">
-                            {getStatusIcon(report.status)}
-                            <span className="ml-1 capitalize">{report.status}</span>
-                          </Badge>
+                          <ReportStatusBadge status={report.status} className="mb-2" />
                           <span className="text-xs text-muted-foreground">
                             {report.videoSize.toFixed(1)} MB
                           </span>
@@ -283,6 +874,28 @@ const Dashboard = () => {
                         <p className="text-sm font-medium text-foreground mb-2 line-clamp-2">
                           {report.description}
                         </p>
+
+                        {isActiveStatus(report.status) && uploadStatuses[report.id] && (
+                          <div className="mb-2">
+                            {uploadHandlesRef.current[report.id] ? (
+                              <UploadProgressBar
+                                status={uploadStatuses[report.id]}
+                                onPause={() => handlePauseUpload(report.id)}
+                                onResume={() => handleResumeUpload(report.id)}
+                                onCancel={() => handleCancelUpload(report.id)}
+                                compact
+                              />
+                            ) : (
+                              <UploadProgressBar status={uploadStatuses[report.id]} compact />
+                            )}
+                          </div>
+                        )}
+
+                        {isActiveStatus(report.status) && report.analysis && (
+                          <div className="mb-2">
+                            <StreamingAnalysis text={report.analysis} state={report.analysisStreamState} preview />
+                          </div>
+                        )}
                         
                         <div className="flex items-center justify-between">
                           <div className="flex items-center text-xs text-muted-foreground">
@@ -290,17 +903,42 @@ const Dashboard = () => {
                             {formatDate(report.submittedAt)}
                           </div>
                           
-                          {report.status === 'completed' && report.analysis && (
-                            <Button
-                              variant="ghost"
-                              size="sm"
-                              onClick={() => handleViewAnalysis(report)}
-                              className="h-6 px-2 text-xs"
-                            >
-                              <Eye className="h-3 w-3 mr-1" />
-                              View Analysis
-                            </Button>
-                          )}
+                          <div className="flex items-center">
+                            {report.status === 'failed' && (report.hasVideo || retryBlobsRef.current.has(report.id)) && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => handleRetryReport(report)}
+                                disabled={activeUploadId !== null}
+                                className="h-6 px-2 text-xs"
+                              >
+                                <RotateCcw className="h-3 w-3 mr-1" />
+                                Retry
+                              </Button>
+                            )}
+                            {!isActiveStatus(report.status) && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => handleViewReport(report)}
+                                className="h-6 px-2 text-xs"
+                              >
+                                <Eye className="h-3 w-3 mr-1" />
+                                {report.analysis ? 'View Analysis' : 'Details'}
+                              </Button>
+                            )}
+                            {!isActiveStatus(report.status) && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => handleDeleteReport(report)}
+                                className="h-6 px-2 text-xs text-muted-foreground hover:text-destructive"
+                                aria-label="Delete report"
+                              >
+                                <Trash2 className="h-3 w-3" />
+                              </Button>
+                            )}
+                          </div>
                         </div>
                       </div>
                     ))}
@@ -309,83 +947,49 @@ const Dashboard = () => {
               </CardContent>
             </Card>
 
+            <StorageUsageCard
+              reportCount={reports.length}
+              videoCount={reports.filter(report => report.hasVideo).length}
+              onClearVideos={handleClearVideos}
+            />
+
             {/* Status Legend */}
             <Card>
               <CardHeader>
                 <CardTitle className="text-base">Status Guide</CardTitle>
               </CardHeader>
               <CardContent className="space-y-3">
-                <div className="flex items-center space-x-2">
-                  <Badge variant="secondary">
-                    <Clock className="h-3 w-3 mr-1" />
-                    Pending
-                  </Badge>
-                  <span className="text-xs text-muted-foreground">
-                    Uploading to server
-                  </span>
-                </div>
-                <div className="flex items-center space-x-2">
-                  <Badge variant="default">
-                    <AlertTriangle className="h-3 w-3 mr-1" />
-                    Reviewing
-                  </Badge>
-                  <span className="text-xs text-muted-foreground">
-                    Processing failed
-                  </span>
-                </div>
-                <div className="flex items-center space-x-2">
-                  <Badge variant="outline">
-                    <CheckCircle className="h-3 w-3 mr-1" />
-                    Completed
-                  </Badge>
-                  <span className="text-xs text-muted-foreground">
-                    Analysis complete
-                  </span>
-                </div>
+                {REPORT_STATUSES.map(status => (
+                  <div key={status} className="flex items-center space-x-2">
+                    <ReportStatusBadge status={status} />
+                    <span className="text-xs text-muted-foreground">
+                      {REPORT_STATUS_DETAILS[status].description}
+                    </span>
+                  </div>
+                ))}
               </CardContent>
             </Card>
           </div>
         </div>
-
-        {/* Analysis Modal */}
-        {showAnalysis && selectedReport && (
-          <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50">
-            <div className="bg-background rounded-lg max-w-2xl w-full max-h-[80vh] overflow-y-auto">
-              <div className="p-6">
-                <div className="flex items-center justify-between mb-4">
-                  <h3 className="text-lg font-semibold">Video Analysis</h3>
-                  <Button
-                    variant="ghost"
-                    size="sm"
-                    onClick={() => setShowAnalysis(false)}
-                  >
-                    ×
-                  </Button>
-                </div>
-                
-                <div className="space-y-4">
-                  <div>
-                    <h4 className="font-medium mb-2">Problem Description</h4>
-                    <p className="text-sm text-muted-foreground">{selectedReport.description}</p>
-                  </div>
-                  
-                  <div>
-                    <h4 className="font-medium mb-2">AI Analysis</h4>
-                    <div className="bg-muted p-4 rounded-lg">
-                      <p className="text-sm whitespace-pre-wrap">{selectedReport.analysis}</p>
-                    </div>
-                  </div>
-                  
-                  <div className="flex items-center justify-between text-xs text-muted-foreground">
-                    <span>Video Size: {selectedReport.videoSize.toFixed(1)} MB</span>
-                    <span>Analyzed: {selectedReport.analysisDate ? new Date(selectedReport.analysisDate).toLocaleString() : 'N/A'}</span>
-                  </div>
-                </div>
-              </div>
-            </div>
-          </div>
-        )}
       </div>
+
+      <AlertDialog open={pendingNavigation !== null} onOpenChange={(open) => !open && setPendingNavigation(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Leave while uploading?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Your video is still being sent. Leaving stops the upload and marks the report as failed.
+              If the recording is kept on this device, retrying it continues from where it stopped.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Stay</AlertDialogCancel>
+            <AlertDialogAction onClick={() => pendingNavigation && navigate(pendingNavigation)}>
+              Leave Anyway
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 };
@@ -0,0 +1,288 @@
+import { useEffect, useState } from 'react';
+import { useLocation, useNavigate, useParams } from 'react-router-dom';
+import { ArrowLeft, Calendar, FileText, History, Info, Loader2, Video } from 'lucide-react';
+import { Navbar } from '@/components/Navbar';
+import { ReportStatusBadge } from '@/components/ReportStatusBadge';
+import { StoredVideo } from '@/components/StoredVideo';
+import { StreamingAnalysis } from '@/components/StreamingAnalysis';
+import { StructuredAnalysisCards } from '@/components/StructuredAnalysisCards';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { useReport } from '@/hooks/use-reports';
+import { useToast } from '@/hooks/use-toast';
+import {
+  isActiveStatus,
+  manualTransitions,
+  REPORT_STATUS_DETAILS,
+  ReportStatus,
+  transitionReport,
+} from '@/lib/reportLifecycle';
+import { Report } from '@/services/api';
+import { reportStore } from '@/services/reportStore';
+
+const formatDateTime = (value: Date | string) =>
+  new Intl.DateTimeFormat('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  }).format(new Date(value));
+
+const ReportDetail = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { toast } = useToast();
+  const [isAuthenticated] = useState(true); // In a real app, this would come from auth context
+  const [localReport, setLocalReport] = useState<Report | null>(null);
+  const [hasLoadedLocal, setHasLoadedLocal] = useState(false);
+
+  // Reports that were only ever seen on the server are not in the local store
+  const serverReport = useReport(id, { enabled: hasLoadedLocal && !localReport });
+  const report = localReport ?? serverReport.data ?? null;
+  const isLoading = !hasLoadedLocal || (!localReport && serverReport.isLoading);
+
+  useEffect(() => {
+    let isCancelled = false;
+    setHasLoadedLocal(false);
+
+    reportStore
+      .get(id)
+      .then((stored) => {
+        if (!isCancelled) setLocalReport(stored);
+      })
+      .catch((error) => console.error('Failed to load saved report:', error))
+      .finally(() => {
+        if (!isCancelled) setHasLoadedLocal(true);
+      });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [id]);
+
+  // Opened from the dashboard: go back in history so its scroll position is kept. Opened from a
+  // bookmark or a shared link: there is nothing to go back to.
+  const handleBack = () => {
+    if (location.key !== 'default') {
+      navigate(-1);
+    } else {
+      navigate('/dashboard');
+    }
+  };
+
+  const handleStatusChange = async (status: ReportStatus) => {
+    if (!report) return;
+
+    const updated = transitionReport(report, status);
+    setLocalReport(updated);
+
+    try {
+      await reportStore.save([updated]);
+    } catch (error) {
+      console.error('Failed to save report status:', error);
+      toast({
+        title: "Status Not Saved",
+        description: "The change will be lost when you leave this page.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleSignOut = () => {
+    navigate('/');
+  };
+
+  const renderContent = () => {
+    if (isLoading) {
+      return (
+        <div className="flex items-center justify-center py-24 text-muted-foreground">
+          <Loader2 className="h-6 w-6 mr-2 animate-spin" />
+          Loading report...
+        </div>
+      );
+    }
+
+    if (!report) {
+      return (
+        <Card>
+          <CardContent className="py-16 text-center">
+            <FileText className="h-12 w-12 text-muted-foreground mx-auto mb-3" />
+            <h2 className="text-lg font-semibold mb-1">Report Not Found</h2>
+            <p className="text-muted-foreground mb-4">
+              It may have been deleted, or it was submitted from another device.
+            </p>
+            <Button onClick={() => navigate('/dashboard')}>Go to Dashboard</Button>
+          </CardContent>
+        </Card>
+      );
+    }
+
+    const nextStatuses = manualTransitions(report.status);
+    const history = [...(report.statusHistory ?? [])].reverse();
+
+    return (
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2 space-y-6">
+          {report.hasVideo && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base flex items-center">
+                  <Video className="h-4 w-4 mr-2" />
+                  Recording
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <StoredVideo reportId={report.id} />
+              </CardContent>
+            </Card>
+          )}
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Problem Description</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <p className="text-sm text-muted-foreground whitespace-pre-wrap">{report.description}</p>
+            </CardContent>
+          </Card>
+
+          {report.structured && <StructuredAnalysisCards analysis={report.structured} />}
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">{report.structured ? 'Full Analysis' : 'AI Analysis'}</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {report.analysis ? (
+                <StreamingAnalysis text={report.analysis} state={report.analysisStreamState} />
+              ) : (
+                <p className="text-sm text-muted-foreground">
+                  {isActiveStatus(report.status)
+                    ? 'The analysis is not ready yet. Progress is shown on the dashboard.'
+                    : 'No analysis text is available for this report.'}
+                </p>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        <div className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Status</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-1">
+                <ReportStatusBadge status={report.status} />
+                <p className="text-xs text-muted-foreground">{REPORT_STATUS_DETAILS[report.status].description}</p>
+              </div>
+              {nextStatuses.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                  {nextStatuses.map((status) => (
+                    <Button
+                      key={status}
+                      variant={status === 'closed' ? 'ghost' : 'outline'}
+                      size="sm"
+                      onClick={() => handleStatusChange(status)}
+                    >
+                      {REPORT_STATUS_DETAILS[status].action}
+                    </Button>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base flex items-center">
+                <History className="h-4 w-4 mr-2" />
+                Status History
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {history.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No history was recorded for this report.</p>
+              ) : (
+                <ol className="space-y-3">
+                  {history.map((change, index) => (
+                    <li key={`${change.status}-${change.at}-${index}`} className="flex items-center justify-between">
+                      <ReportStatusBadge status={change.status} />
+                      <span className="text-xs text-muted-foreground">{formatDateTime(change.at)}</span>
+                    </li>
+                  ))}
+                </ol>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base flex items-center">
+                <Info className="h-4 w-4 mr-2" />
+                Details
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <dl className="space-y-2 text-sm">
+                <div className="flex justify-between">
+                  <dt className="text-muted-foreground">Submitted</dt>
+                  <dd>{formatDateTime(report.submittedAt)}</dd>
+                </div>
+                <div className="flex justify-between">
+                  <dt className="text-muted-foreground">Analyzed</dt>
+                  <dd>{report.analysisDate ? formatDateTime(report.analysisDate) : 'N/A'}</dd>
+                </div>
+                <div className="flex justify-between">
+                  <dt className="text-muted-foreground">Video Size</dt>
+                  <dd>{report.videoSize.toFixed(1)} MB</dd>
+                </div>
+                <div className="flex justify-between">
+                  <dt className="text-muted-foreground">Stored</dt>
+                  <dd>{report.serverId ? 'On the server' : 'On this device only'}</dd>
+                </div>
+                {report.jobId && (
+                  <div className="flex justify-between gap-4">
+                    <dt className="text-muted-foreground">Analysis Job</dt>
+                    <dd className="font-mono text-xs truncate" title={report.jobId}>{report.jobId}</dd>
+                  </div>
+                )}
+              </dl>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar
+        isAuthenticated={isAuthenticated}
+        onSignOut={handleSignOut}
+      />
+      <div className="max-w-6xl mx-auto px-4 py-8">
+        <Button variant="ghost" size="sm" onClick={handleBack} className="mb-4 -ml-2">
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          Back to Dashboard
+        </Button>
+
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-foreground mb-2">Report Details</h1>
+          {report && (
+            <div className="flex items-center text-sm text-muted-foreground">
+              <Calendar className="h-4 w-4 mr-1" />
+              Submitted {formatDateTime(report.submittedAt)}
+            </div>
+          )}
+        </div>
+
+        {renderContent()}
+      </div>
+    </div>
+  );
+};
+
+export default ReportDetail;
@@ -0,0 +1,133 @@
+import { z } from 'zod';
+import {
+  AnalysisFailedError,
+  ApiError,
+  ContractViolationError,
+  errorFromResponse,
+  toApiError,
+  UploadCancelledError,
+} from './errors';
+import { fetchTransport, Transport } from './transport';
+import { analysisJobSchema, analysisJobStatusSchema, parseResponse, AnalysisJob, AnalysisJobStatus } from './schemas';
+
+// Consumes the analysis of a job as Server-Sent Events over fetch (rather than EventSource,
+// which cannot be aborted with a signal or report HTTP status codes).
+//
+//   event: status  data: {"status":"analyzing"}
+//   event: delta   data: {"text":"Partial analysis text"}
+//   event: done    data: <AnalysisJob with result>
+//   event: error   data: {"message":"Why the analysis failed"}
+
+const deltaEventSchema = z.object({ text: z.string() });
+const statusEventSchema = z.object({ status: analysisJobStatusSchema });
+const errorEventSchema = z.object({ message: z.string().optional() });
+
+export interface AnalysisStreamHandlers {
+  signal?: AbortSignal;
+  transport?: Transport;
+  onStatus?: (status: AnalysisJobStatus) => void;
+  // Receives the full text generated so far, not just the latest chunk
+  onDelta?: (text: string) => void;
+}
+
+interface ServerSentEvent {
+  event: string;
+  data: string;
+}
+
+// The stream closed before a `done` or `error` event; whatever text arrived so far is partial.
+export class AnalysisStreamInterruptedError extends ApiError {
+  constructor(cause?: unknown) {
+    super('NETWORK_ERROR', 'The analysis stream was interrupted.', { retryable: true, cause });
+    this.name = 'AnalysisStreamInterruptedError';
+  }
+}
+
+async function* readServerSentEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<ServerSentEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const blocks = buffer.split(/\r?\n\r?\n/);
+      buffer = blocks.pop() ?? '';
+
+      for (const block of blocks) {
+        let event = 'message';
+        const data: string[] = [];
+
+        block.split(/\r?\n/).forEach((line) => {
+          if (line.startsWith(':')) return; // comment / keep-alive
+          const separator = line.indexOf(':');
+          const field = separator === -1 ? line : line.slice(0, separator);
+          const fieldValue = separator === -1 ? '' : line.slice(separator + 1).replace(/^ /, '');
+
+          if (field === 'event') event = fieldValue;
+          if (field === 'data') data.push(fieldValue);
+        });
+
+        if (data.length > 0) {
+          yield { event, data: data.join('\n') };
+        }
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+const parseEventData = (data: string, endpoint: string): unknown => {
+  try {
+    return JSON.parse(data);
+  } catch {
+    throw new ContractViolationError(endpoint, ['Event data is not valid JSON']);
+  }
+};
+
+// Resolves with the completed job once the server sends `done`.
+export const streamAnalysis = async (url: string, endpoint: string, handlers: AnalysisStreamHandlers = {}): Promise<AnalysisJob> => {
+  const { signal, onStatus, onDelta, transport = fetchTransport } = handlers;
+  let text = '';
+
+  let response: Response;
+  try {
+    response = await transport(url, { headers: { Accept: 'text/event-stream' }, signal });
+  } catch (error) {
+    if (signal?.aborted) throw new UploadCancelledError();
+    throw toApiError(error);
+  }
+
+  if (!response.ok || !response.body) {
+    throw errorFromResponse(response.status);
+  }
+
+  try {
+    for await (const { event, data } of readServerSentEvents(response.body)) {
+      const payload = parseEventData(data, endpoint);
+
+      if (event === 'status') {
+        onStatus?.(parseResponse(statusEventSchema, payload, endpoint).status);
+      } else if (event === 'delta') {
+        text += parseResponse(deltaEventSchema, payload, endpoint).text;
+        onDelta?.(text);
+      } else if (event === 'done') {
+        const job = parseResponse(analysisJobSchema, payload, endpoint);
+        onStatus?.(job.status);
+        return job;
+      } else if (event === 'error') {
+        throw new AnalysisFailedError(parseResponse(errorEventSchema, payload, endpoint).message || undefined);
+      }
+    }
+  } catch (error) {
+    if (signal?.aborted) throw new UploadCancelledError();
+    if (error instanceof ApiError) throw error;
+    throw new AnalysisStreamInterruptedError(error);
+  }
+
+  throw new AnalysisStreamInterruptedError();
+};
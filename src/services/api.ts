@@ -1,97 +1,586 @@
-const API_BASE_URL = 'https://fixify-backend.onrender.com/api';
-
-export interface VideoAnalysisResponse {
-  success: boolean;
-  message: string;
-  data: {
-    originalName: string;
-    fileSize: number;
-    fileSizeInMB: number;
-    analysis: string;
-    analysisDate: string;
-  };
-}
+import { AppConfig } from '@/lib/config';
+import { formatFileSize } from '@/lib/utils';
+import { canTranscodeToMp4, transcodeToMp4 } from '@/lib/transcodeToMp4';
+import { isMp4, toVideoFile } from '@/lib/videoFormat';
+import { ReportStatus, StatusChange, statusForJob } from '@/lib/reportLifecycle';
+import { ResumableUpload } from './resumableUpload';
+import { streamAnalysis } from './analysisStream';
+import { CircuitBreaker, CircuitSnapshot } from './circuitBreaker';
+import { sleep, withRetry } from './retry';
+import { fetchTransport, Transport } from './transport';
+import { BackendWarmup, WarmupStatus } from './warmup';
+import {
+  AnalysisFailedError,
+  ApiError,
+  CircuitOpenError,
+  ContractViolationError,
+  errorFromResponse,
+  PayloadTooLargeError,
+  TimeoutError,
+  toApiError,
+  UnsupportedFormatError,
+  UploadCancelledError,
+} from './errors';
+import {
+  analysisJobResponseSchema,
+  healthResponseSchema,
+  parseResponse,
+  reportListResponseSchema,
+  reportResponseSchema,
+  testGeminiResponseSchema,
+  AnalysisJob,
+  AnalysisJobStatus,
+  HealthResponse,
+  ServerReport,
+  StructuredAnalysis,
+  VideoAnalysisResponse,
+} from './schemas';
+
+export type {
+  AnalysisJob,
+  AnalysisJobStatus,
+  HealthResponse,
+  ServerReport,
+  Severity,
+  StructuredAnalysis,
+  TestGeminiResponse,
+  Urgency,
+  VideoAnalysisResponse,
+} from './schemas';
+
+const JOB_POLL_INITIAL_INTERVAL = 2000;
+const JOB_POLL_MAX_INTERVAL = 10000;
+const JOB_POLL_MAX_CONSECUTIVE_FAILURES = 3;
+const REQUEST_RETRIES = 2;
+const REQUEST_RETRY_BASE_DELAY = 500;
+const REQUEST_RETRY_MAX_DELAY = 8000;
+const UPLOAD_CHUNK_RETRIES = 5;
 
 export interface Report {
   id: string;
   description: string;
-  status: 'pending' | 'reviewing' | 'completed';
+  // Only changed through transitionReport (see lib/reportLifecycle.ts)
+  status: ReportStatus;
+  // Oldest first; absent for reports that were only ever seen on the server
+  statusHistory?: StatusChange[];
   submittedAt: Date;
   videoSize: number;
   analysis?: string;
   analysisDate?: string;
+  // Absent when the backend only returned text
+  structured?: StructuredAnalysis;
+  jobId?: string;
+  // Id of the backend's copy of this report, once it is known (see reportSync.ts)
+  serverId?: string;
+  // The recording is kept on this device (see reportStore.ts)
+  hasVideo?: boolean;
+  analysisStreamState?: 'streaming' | AnalysisStreamOutcome;
+}
+
+// 'degraded' means the backend is reachable but its responses no longer match what this client expects.
+export type ConnectionStatus = 'connected' | 'degraded' | 'disconnected';
+
+export type { CircuitSnapshot, CircuitState } from './circuitBreaker';
+export type { WarmupState, WarmupStatus } from './warmup';
+
+// 'preparing' is where every upload starts, so the move to 'uploading' is always reported
+// 'waiting' holds a submission until a sleeping backend has woken up (see warmup.ts)
+// 'converting' re-encodes a recording into the container the backend needs (see transcodeToMp4.ts)
+export type UploadState = 'preparing' | 'converting' | 'waiting' | 'uploading' | 'paused' | 'queued' | 'analyzing';
+
+export interface UploadProgress {
+  bytesUploaded: number;
+  bytesTotal: number;
+  percentage: number;
+}
+
+export interface UploadStatus {
+  state: UploadState;
+  progress: UploadProgress;
+}
+
+export interface VideoUploadCallbacks extends AnalysisStreamCallbacks {
+  onProgress?: (progress: UploadProgress) => void;
+  onStateChange?: (state: UploadState) => void;
+  // Fired once the backend has accepted the upload; persist the id to pick the job up again later
+  onJobCreated?: (jobId: string) => void;
+}
+
+export type AnalysisStreamOutcome = 'finished' | 'aborted';
+
+export interface AnalysisStreamCallbacks {
+  // Opts in to streaming; receives the full analysis text generated so far
+  onAnalysisDelta?: (text: string) => void;
+  onStreamEnd?: (outcome: AnalysisStreamOutcome) => void;
+}
+
+export interface WaitForJobOptions extends AnalysisStreamCallbacks {
+  signal?: AbortSignal;
+  onStatusChange?: (status: AnalysisJobStatus) => void;
+}
+
+// Limits the recorder enforces before anything is uploaded
+export interface RecordingLimits {
+  maxDurationMs: number;
+  maxBytes: number;
+}
+
+export interface VideoUploadHandle {
+  result: Promise<VideoAnalysisResponse>;
+  readonly state: UploadState;
+  readonly progress: UploadProgress;
+  pause: () => void;
+  resume: () => void;
+  cancel: () => void;
+  // Stops following the upload without discarding what was sent; the same recording resumes next time
+  detach: () => void;
 }
 
-class ApiService {
-  private baseUrl: string;
+export class ApiService {
+  private config: AppConfig | null;
+  private rawTransport: Transport;
+  // Every request (API calls, upload chunks, analysis streams) goes through the breaker
+  private breaker = new CircuitBreaker();
+  private transport: Transport;
+  private warmupMonitor = new BackendWarmup((signal) => this.pingHealth(signal));
+
+  // The shared instance is configured at startup (see main.tsx) once the app configuration has loaded
+  constructor(config: AppConfig | null = null, transport: Transport = fetchTransport) {
+    this.config = config;
+    this.rawTransport = transport;
+    this.transport = this.breaker.wrap(transport);
+  }
+
+  configure(config: AppConfig, transport: Transport = fetchTransport) {
+    this.config = config;
+    this.rawTransport = transport;
+    this.transport = this.breaker.wrap(transport);
+  }
+
+  get isMocked(): boolean {
+    return this.rawTransport !== fetchTransport;
+  }
+
+  get circuit(): CircuitSnapshot {
+    return this.breaker.snapshot;
+  }
+
+  onCircuitChange(listener: (snapshot: CircuitSnapshot) => void): () => void {
+    return this.breaker.subscribe(listener);
+  }
+
+  get warmup(): WarmupStatus {
+    return this.warmupMonitor.snapshot;
+  }
+
+  onWarmupChange(listener: (status: WarmupStatus) => void): () => void {
+    return this.warmupMonitor.subscribe(listener);
+  }
 
-  constructor(baseUrl: string = API_BASE_URL) {
-    this.baseUrl = baseUrl;
+  // Wakes the backend up if it is asleep; started on app load and resolves once it is up or given up on
+  warmUp(): Promise<void> {
+    return this.warmupMonitor.start();
+  }
+
+  get recordingLimits(): RecordingLimits {
+    return {
+      maxDurationMs: this.settings.maxRecordingSeconds * 1000,
+      maxBytes: this.settings.maxUploadBytes,
+    };
+  }
+
+  private get settings(): AppConfig {
+    if (!this.config) {
+      throw new Error('ApiService used before the app configuration was loaded');
+    }
+    return this.config;
   }
 
-  async uploadVideoForAnalysis(videoBlob: Blob, description: string): Promise<VideoAnalysisResponse> {
-    const formData = new FormData();
-    
+  private get baseUrl(): string {
+    return this.settings.apiBaseUrl.replace(/\/+$/, '');
+  }
+
+  // Starts an upload and hands back controls for it; `result` settles once the analysis is back.
+  createVideoUpload(
+    videoBlob: Blob,
+    description: string,
+    callbacks: VideoUploadCallbacks = {}
+  ): VideoUploadHandle {
     // Validate that we have a video blob
     if (!videoBlob || videoBlob.size === 0) {
-      throw new Error('Invalid video blob: empty or missing');
+      throw new UnsupportedFormatError('Invalid video blob: empty or missing');
     }
-    
-    // Always create a new File with video/mp4 type for backend compatibility
-    const videoFile = new File([videoBlob], 'video.mp4', { type: 'video/mp4' });
-    
-    formData.append('video', videoFile);
-    formData.append('description', description);
+
+    this.assertUploadSize(videoBlob);
+
+    // Name and label the file after the container it was actually recorded in
+    const recording = toVideoFile(videoBlob);
 
     const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 120000); // 2 minute timeout
+    let upload: ResumableUpload | null = null;
+    let state: UploadState = 'preparing';
+    let progress: UploadProgress = { bytesUploaded: 0, bytesTotal: recording.size, percentage: 0 };
+
+    const setState = (next: UploadState) => {
+      if (next === state) return;
+      state = next;
+      callbacks.onStateChange?.(next);
+    };
+
+    const setProgress = (next: UploadProgress) => {
+      progress = next;
+      callbacks.onProgress?.(next);
+    };
+
+    // Send the bytes in resumable chunks so a dropped connection or reload does not lose the recording
+    const startUpload = (videoFile: File) => {
+      upload = new ResumableUpload(videoFile, {
+        endpoint: `${this.baseUrl}/uploads`,
+        chunkSize: this.settings.uploadChunkSizeBytes,
+        requestTimeout: this.settings.requestTimeoutMs,
+        retries: UPLOAD_CHUNK_RETRIES,
+        transport: this.transport,
+        metadata: {
+          filename: videoFile.name,
+          filetype: videoFile.type,
+          description,
+        },
+        onProgress: (bytesUploaded, bytesTotal) => {
+          setProgress({
+            bytesUploaded,
+            bytesTotal,
+            percentage: bytesTotal > 0 ? Math.round((bytesUploaded / bytesTotal) * 100) : 100,
+          });
+        },
+      });
+      return upload.start();
+    };
+
+    const result = this.runVideoUpload(recording, description, {
+      signal: controller.signal,
+      setState,
+      setProgress,
+      startUpload,
+      callbacks,
+    });
+
+    return {
+      result,
+      get state() {
+        return state;
+      },
+      get progress() {
+        return progress;
+      },
+      pause: () => {
+        if (state !== 'uploading' || !upload) return;
+        upload.pause();
+        setState('paused');
+      },
+      resume: () => {
+        if (state !== 'paused' || !upload) return;
+        upload.resume();
+        setState('uploading');
+      },
+      cancel: () => {
+        upload?.cancel();
+        controller.abort();
+      },
+      detach: () => {
+        upload?.stop();
+        controller.abort();
+      },
+    };
+  }
+
+  async uploadVideoForAnalysis(
+    videoBlob: Blob,
+    description: string,
+    callbacks: VideoUploadCallbacks = {}
+  ): Promise<VideoAnalysisResponse> {
+    return this.createVideoUpload(videoBlob, description, callbacks).result;
+  }
+
+  private async runVideoUpload(
+    recording: File,
+    description: string,
+    steps: {
+      signal: AbortSignal;
+      setState: (state: UploadState) => void;
+      setProgress: (progress: UploadProgress) => void;
+      startUpload: (videoFile: File) => Promise<string>;
+      callbacks: VideoUploadCallbacks;
+    }
+  ): Promise<VideoAnalysisResponse> {
+    const { signal, setState, setProgress, startUpload, callbacks } = steps;
 
     try {
-      console.log('Uploading video to:', `${this.baseUrl}/videos/analyze-video`);
-      console.log('Video blob size:', videoBlob.size);
-      console.log('Video blob type:', videoBlob.type);
+      const videoFile = await this.prepareVideoFile(recording, signal, setState, setProgress);
+
+      // Submissions made while the backend is still waking up wait for it instead of failing
+      if (this.warmupMonitor.snapshot.state !== 'ready') {
+        setState('waiting');
+        await this.warmupMonitor.whenReady(signal);
+      }
+      setState('uploading');
+
+      console.log('Uploading video to:', `${this.baseUrl}/uploads`);
+      console.log('Video file size:', videoFile.size);
       console.log('Video file type:', videoFile.type);
       console.log('Video file name:', videoFile.name);
       console.log('Description:', description);
 
-      const response = await fetch(`${this.baseUrl}/videos/analyze-video`, {
-        method: 'POST',
-        body: formData,
-        signal: controller.signal,
-      });
+      const uploadUrl = await startUpload(videoFile);
+      const uploadId = uploadUrl.split('/').filter(Boolean).pop();
+      if (!uploadId) {
+        throw new ApiError('SERVER_ERROR', `Upload server returned an upload URL without an id: ${uploadUrl}`);
+      }
 
-      clearTimeout(timeoutId);
+      console.log('Upload complete:', uploadUrl);
+      setState('queued');
 
-      console.log('Response status:', response.status);
-      console.log('Response headers:', response.headers);
+      const job = await this.submitAnalysisJob(uploadId, description, signal);
+      callbacks.onJobCreated?.(job.jobId);
 
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        console.error('Upload error:', errorData);
-        throw new Error(errorData.message || `HTTP error! status: ${response.status}`);
+      return await this.waitForAnalysisJob(job.jobId, {
+        signal,
+        onAnalysisDelta: callbacks.onAnalysisDelta,
+        onStreamEnd: callbacks.onStreamEnd,
+        onStatusChange: (status) => {
+          if (status === 'queued' || status === 'analyzing') setState(status);
+        },
+      });
+    } catch (error) {
+      console.error('Upload failed:', error);
+      if (signal.aborted) {
+        throw new UploadCancelledError();
       }
+      throw toApiError(error);
+    }
+  }
 
-      const result = await response.json();
-      console.log('Upload success:', result);
-      return result;
+  // Converts the recording to MP4 when the backend is configured to need it. Browsers that cannot
+  // convert send the recording as is, correctly labelled, and leave the decision to the backend.
+  private async prepareVideoFile(
+    recording: File,
+    signal: AbortSignal,
+    setState: (state: UploadState) => void,
+    setProgress: (progress: UploadProgress) => void
+  ): Promise<File> {
+    if (this.settings.uploadContainer !== 'mp4' || isMp4(recording.type)) {
+      return recording;
+    }
+
+    if (!canTranscodeToMp4()) {
+      console.log(`Cannot convert ${recording.type} to MP4 in this browser; uploading it as recorded`);
+      return recording;
+    }
+
+    setState('converting');
+    try {
+      const mp4 = await transcodeToMp4(recording, {
+        signal,
+        onProgress: (percentage) => setProgress({ bytesUploaded: 0, bytesTotal: recording.size, percentage }),
+      });
+      this.assertUploadSize(mp4);
+      setProgress({ bytesUploaded: 0, bytesTotal: mp4.size, percentage: 0 });
+      return toVideoFile(mp4);
     } catch (error) {
-      clearTimeout(timeoutId);
-      console.error('Upload failed:', error);
-      if (error instanceof Error) {
-        if (error.name === 'AbortError') {
-          throw new Error('Request timeout - video analysis is taking longer than expected');
+      if (signal.aborted || error instanceof PayloadTooLargeError) throw error;
+      console.error(`Converting ${recording.type} to MP4 failed; uploading it as recorded:`, error);
+      setProgress({ bytesUploaded: 0, bytesTotal: recording.size, percentage: 0 });
+      return recording;
+    }
+  }
+
+  private assertUploadSize(video: Blob) {
+    if (video.size > this.settings.maxUploadBytes) {
+      throw new PayloadTooLargeError(
+        `The video is ${formatFileSize(video.size)}; uploads are limited to ${formatFileSize(this.settings.maxUploadBytes)}.`
+      );
+    }
+  }
+
+  private async submitAnalysisJob(uploadId: string, description: string, signal: AbortSignal): Promise<AnalysisJob> {
+    const response = await this.request(`${this.baseUrl}/videos/analyze-upload`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ uploadId, description }),
+      signal,
+    });
+
+    console.log('Analysis job submission status:', response.status);
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      console.error('Analysis job submission error:', errorData);
+      throw errorFromResponse(response.status, errorData);
+    }
+
+    const { data } = parseResponse(
+      analysisJobResponseSchema,
+      await this.readJson(response, 'videos/analyze-upload'),
+      'videos/analyze-upload'
+    );
+    return data;
+  }
+
+  async getAnalysisJob(jobId: string, signal?: AbortSignal): Promise<AnalysisJob> {
+    const endpoint = `jobs/${encodeURIComponent(jobId)}`;
+    const response = await this.request(`${this.baseUrl}/${endpoint}`, { signal });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw errorFromResponse(response.status, errorData);
+    }
+
+    const { data } = parseResponse(analysisJobResponseSchema, await this.readJson(response, endpoint), endpoint);
+    return data;
+  }
+
+  // Waits for a job to finish; usable both right after an upload and for jobs picked up again after navigation.
+  // With `onAnalysisDelta` the text is streamed as it is generated, falling back to polling if the stream breaks.
+  async waitForAnalysisJob(jobId: string, options: WaitForJobOptions = {}): Promise<VideoAnalysisResponse> {
+    const { signal, onStatusChange, onAnalysisDelta, onStreamEnd } = options;
+    // One deadline for the whole wait, so a stalled stream does not buy the polling fallback extra time
+    const deadline = Date.now() + this.settings.analysisTimeoutMs;
+
+    if (onAnalysisDelta) {
+      const endpoint = `jobs/${encodeURIComponent(jobId)}/stream`;
+      // A stream that stays open without sending anything would otherwise never end
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => controller.abort(new TimeoutError()), this.settings.analysisTimeoutMs);
+      const forwardAbort = () => controller.abort();
+      signal?.addEventListener('abort', forwardAbort);
+
+      try {
+        const job = await streamAnalysis(`${this.baseUrl}/${endpoint}`, endpoint, {
+          signal: controller.signal,
+          transport: this.transport,
+          onStatus: onStatusChange,
+          onDelta: onAnalysisDelta,
+        });
+        // A failed job is only known to be failed once its final event has been read
+        const response = this.toAnalysisResponse(job);
+        onStreamEnd?.('finished');
+        return response;
+      } catch (error) {
+        if (signal?.aborted) throw new UploadCancelledError();
+        onStreamEnd?.('aborted');
+        if (error instanceof AnalysisFailedError) throw error;
+        if (controller.signal.aborted) {
+          console.log('Analysis stream did not finish before the deadline, checking the job once more');
+        } else {
+          console.log('Analysis stream unavailable, falling back to polling:', error);
         }
-        throw error;
+      } finally {
+        clearTimeout(timeoutId);
+        signal?.removeEventListener('abort', forwardAbort);
       }
-      throw new Error('Network error occurred');
+    }
+
+    return this.pollAnalysisJob(jobId, { signal, onStatusChange }, deadline);
+  }
+
+  private async pollAnalysisJob(
+    jobId: string,
+    options: WaitForJobOptions,
+    deadline = Date.now() + this.settings.analysisTimeoutMs
+  ): Promise<VideoAnalysisResponse> {
+    const { signal, onStatusChange } = options;
+    let delay = JOB_POLL_INITIAL_INTERVAL;
+    let lastStatus: AnalysisJobStatus | null = null;
+    let consecutiveFailures = 0;
+
+    while (true) {
+      let job: AnalysisJob;
+
+      try {
+        job = await this.getAnalysisJob(jobId, signal);
+        consecutiveFailures = 0;
+      } catch (error) {
+        if (signal?.aborted) throw new UploadCancelledError();
+        // The breaker is giving the backend a break; keep waiting for the job instead of giving up on it
+        if (error instanceof CircuitOpenError) {
+          await sleep(Math.max(delay, error.retryAt - Date.now()), signal);
+          continue;
+        }
+        const apiError = toApiError(error);
+        // A single failed poll says little about the job itself, so only give up after several in a row
+        consecutiveFailures += 1;
+        if (!apiError.retryable || consecutiveFailures >= JOB_POLL_MAX_CONSECUTIVE_FAILURES) {
+          throw apiError;
+        }
+        await sleep(delay, signal);
+        continue;
+      }
+
+      if (job.status !== lastStatus) {
+        lastStatus = job.status;
+        console.log(`Analysis job ${jobId} is ${job.status}`);
+        onStatusChange?.(job.status);
+      }
+
+      if (job.status === 'completed' || job.status === 'failed') {
+        return this.toAnalysisResponse(job);
+      }
+
+      if (Date.now() > deadline) {
+        throw new TimeoutError('Video analysis is taking longer than expected');
+      }
+
+      await sleep(delay, signal);
+      delay = Math.min(delay * 1.5, JOB_POLL_MAX_INTERVAL);
+    }
+  }
+
+  async listReports(signal?: AbortSignal): Promise<Report[]> {
+    const response = await this.request(`${this.baseUrl}/reports`, { signal });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw errorFromResponse(response.status, errorData);
+    }
+
+    const { data } = parseResponse(reportListResponseSchema, await this.readJson(response, 'reports'), 'reports');
+    return data.map((report) => this.toReport(report));
+  }
+
+  async getReport(reportId: string, signal?: AbortSignal): Promise<Report> {
+    const endpoint = `reports/${encodeURIComponent(reportId)}`;
+    const response = await this.request(`${this.baseUrl}/${endpoint}`, { signal });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw errorFromResponse(response.status, errorData);
+    }
+
+    const { data } = parseResponse(reportResponseSchema, await this.readJson(response, endpoint), endpoint);
+    return this.toReport(data);
+  }
+
+  // Deleting a report that is already gone (404) counts as success
+  async deleteReport(reportId: string): Promise<void> {
+    const response = await this.request(`${this.baseUrl}/reports/${encodeURIComponent(reportId)}`, {
+      method: 'DELETE',
+    });
+
+    if (!response.ok && response.status !== 404) {
+      const errorData = await response.json().catch(() => ({}));
+      throw errorFromResponse(response.status, errorData);
     }
   }
 
-  async testConnection(): Promise<boolean> {
+  async testConnection(): Promise<ConnectionStatus> {
+    // An explicit test is the user asking to try now, so it doubles as the trial request of an open circuit
+    this.breaker.probe();
+
     try {
       console.log('Testing connection to:', `${this.baseUrl}/videos/test-gemini`);
       
-      const response = await fetch(`${this.baseUrl}/videos/test-gemini`, {
+      const response = await this.request(`${this.baseUrl}/videos/test-gemini`, {
         method: 'GET',
         headers: {
           'Content-Type': 'application/json',
@@ -101,26 +590,121 @@ class ApiService {
       console.log('Connection test response status:', response.status);
       
       if (response.ok) {
-        const data = await response.json();
+        const data = parseResponse(
+          testGeminiResponseSchema,
+          await this.readJson(response, 'videos/test-gemini'),
+          'videos/test-gemini'
+        );
         console.log('Connection test success:', data);
-        return true;
+        return 'connected';
       } else {
         console.error('Connection test failed with status:', response.status);
-        return false;
+        return 'disconnected';
       }
     } catch (error) {
       console.error('Connection test failed:', error);
-      return false;
+      return error instanceof ContractViolationError ? 'degraded' : 'disconnected';
     }
   }
 
-  async getHealth(): Promise<any> {
+  async getHealth(): Promise<HealthResponse> {
     try {
-      const response = await fetch(`${this.baseUrl.replace('/api', '')}/health`);
-      return response.json();
+      const response = await this.request(this.settings.healthUrl);
+      if (!response.ok) {
+        throw errorFromResponse(response.status);
+      }
+      return parseResponse(healthResponseSchema, await this.readJson(response, 'health'), 'health');
     } catch (error) {
       console.error('Health check failed:', error);
-      throw error;
+      throw toApiError(error);
+    }
+  }
+
+  // Goes straight to the transport: a cold start must not count against the circuit breaker
+  private async pingHealth(signal: AbortSignal): Promise<boolean> {
+    const response = await this.rawTransport(this.settings.healthUrl, { signal });
+    return response.status < 500;
+  }
+
+  // Idempotent requests (GET/HEAD) are retried with jittered backoff on network errors, timeouts and 5xx
+  // responses; anything else is sent once, since repeating it could e.g. queue the same analysis twice.
+  private async request(url: string, init: RequestInit = {}): Promise<Response> {
+    const method = (init.method ?? 'GET').toUpperCase();
+    if (method !== 'GET' && method !== 'HEAD') {
+      return this.send(url, init);
+    }
+
+    return withRetry(
+      async () => {
+        const response = await this.send(url, init);
+        if (response.status >= 500 || response.status === 408) {
+          throw errorFromResponse(response.status, await response.json().catch(() => ({})));
+        }
+        return response;
+      },
+      {
+        retries: REQUEST_RETRIES,
+        baseDelayMs: REQUEST_RETRY_BASE_DELAY,
+        maxDelayMs: REQUEST_RETRY_MAX_DELAY,
+        signal: init.signal ?? undefined,
+        onRetry: (attempt, delayMs, error) => {
+          console.log(`Retrying ${method} ${url} (attempt ${attempt}) in ${delayMs} ms:`, error.message);
+        },
+      }
+    );
+  }
+
+  // fetch with the configured per-request timeout; a caller's own signal still cancels it
+  private async send(url: string, init: RequestInit = {}): Promise<Response> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(new TimeoutError()), this.settings.requestTimeoutMs);
+    const forwardAbort = () => controller.abort();
+    init.signal?.addEventListener('abort', forwardAbort);
+
+    try {
+      return await this.transport(url, { ...init, signal: controller.signal });
+    } catch (error) {
+      if (init.signal?.aborted) throw new UploadCancelledError();
+      throw toApiError(error);
+    } finally {
+      clearTimeout(timeoutId);
+      init.signal?.removeEventListener('abort', forwardAbort);
+    }
+  }
+
+  private toReport(report: ServerReport): Report {
+    return {
+      id: report.id,
+      serverId: report.id,
+      description: report.description,
+      status: statusForJob(report.status),
+      submittedAt: new Date(report.submittedAt),
+      videoSize: report.fileSize / (1024 * 1024),
+      analysis: report.analysis,
+      analysisDate: report.analysisDate,
+      structured: report.structured,
+      jobId: report.jobId,
+    };
+  }
+
+  private toAnalysisResponse(job: AnalysisJob): VideoAnalysisResponse {
+    if (job.status !== 'completed') {
+      throw new AnalysisFailedError(job.error || undefined);
+    }
+
+    return {
+      success: true,
+      message: 'Video analyzed successfully',
+      data: job.result,
+    };
+  }
+
+  // A non-JSON body (e.g. an HTML error page from the host) is as much a contract violation as a wrong shape
+  private async readJson(response: Response, endpoint: string): Promise<unknown> {
+    try {
+      return await response.json();
+    } catch {
+      throw new ContractViolationError(endpoint, ['Response body is not valid JSON']);
     }
   }
 }
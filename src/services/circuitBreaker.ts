@@ -0,0 +1,150 @@
+import { CircuitOpenError, TimeoutError } from './errors';
+import { Transport } from './transport';
+
+// Stops sending requests to a backend that keeps failing, so retries from every open tab don't
+// pile onto a service that is already struggling.
+//
+//   closed     requests flow; consecutive failures are counted
+//   open       requests fail fast with CircuitOpenError until `resetTimeoutMs` has passed
+//   half-open  a single trial request is let through; success closes the circuit, failure re-opens it
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerOptions {
+  failureThreshold?: number;
+  resetTimeoutMs?: number;
+}
+
+export interface CircuitSnapshot {
+  state: CircuitState;
+  failures: number;
+  // When an open circuit lets the next trial request through (epoch ms); null unless open
+  retryAt: number | null;
+}
+
+type CircuitListener = (snapshot: CircuitSnapshot) => void;
+
+const DEFAULT_FAILURE_THRESHOLD = 5;
+const DEFAULT_RESET_TIMEOUT = 30000;
+
+// Responses that say "the service is unwell" rather than "this request was wrong"
+const isFailureStatus = (status: number) => status >= 500 || status === 408 || status === 429;
+
+export class CircuitBreaker {
+  private failureThreshold: number;
+  private resetTimeoutMs: number;
+  private state: CircuitState = 'closed';
+  private failures = 0;
+  private openedAt = 0;
+  private trialInFlight = false;
+  private halfOpenTimer: ReturnType<typeof setTimeout> | null = null;
+  private listeners = new Set<CircuitListener>();
+
+  constructor(options: CircuitBreakerOptions = {}) {
+    this.failureThreshold = options.failureThreshold ?? DEFAULT_FAILURE_THRESHOLD;
+    this.resetTimeoutMs = options.resetTimeoutMs ?? DEFAULT_RESET_TIMEOUT;
+  }
+
+  get snapshot(): CircuitSnapshot {
+    return {
+      state: this.state,
+      failures: this.failures,
+      retryAt: this.state === 'open' ? this.openedAt + this.resetTimeoutMs : null,
+    };
+  }
+
+  subscribe(listener: CircuitListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Guards every request made through `transport`. Network errors, timeouts and 5xx/408/429 responses
+  // count as failures; an aborted request (pause, cancel, navigation) counts as neither.
+  wrap(transport: Transport): Transport {
+    return async (url, init) => {
+      this.acquire();
+
+      let response: Response;
+      try {
+        response = await transport(url, init);
+      } catch (error) {
+        if (error instanceof TypeError || error instanceof TimeoutError) {
+          this.recordFailure();
+        } else {
+          this.release();
+        }
+        throw error;
+      }
+
+      if (isFailureStatus(response.status)) {
+        this.recordFailure();
+      } else {
+        this.recordSuccess();
+      }
+      return response;
+    };
+  }
+
+  // Lets the next request through as the half-open trial without waiting out the pause (e.g. "Test Connection")
+  probe() {
+    if (this.state === 'open') this.transition('half-open');
+  }
+
+  private acquire() {
+    if (this.state === 'open') {
+      throw new CircuitOpenError(this.openedAt + this.resetTimeoutMs);
+    }
+
+    if (this.state === 'half-open') {
+      if (this.trialInFlight) {
+        throw new CircuitOpenError(Date.now() + this.resetTimeoutMs);
+      }
+      this.trialInFlight = true;
+    }
+  }
+
+  private release() {
+    this.trialInFlight = false;
+  }
+
+  private recordSuccess() {
+    this.release();
+    this.failures = 0;
+    this.transition('closed');
+  }
+
+  private recordFailure() {
+    this.release();
+    this.failures += 1;
+
+    // Requests that were already in flight when the circuit opened don't extend the pause
+    if (this.state === 'open') return;
+    if (this.state === 'half-open' || this.failures >= this.failureThreshold) {
+      this.openedAt = Date.now();
+      this.transition('open');
+    }
+  }
+
+  private transition(next: CircuitState) {
+    if (this.halfOpenTimer) {
+      clearTimeout(this.halfOpenTimer);
+      this.halfOpenTimer = null;
+    }
+
+    if (next === 'open') {
+      console.log(`Circuit opened after ${this.failures} failures; pausing requests for ${this.resetTimeoutMs} ms`);
+      this.halfOpenTimer = setTimeout(() => this.transition('half-open'), this.resetTimeoutMs);
+    }
+
+    if (next === this.state) return;
+    this.state = next;
+    this.notify();
+  }
+
+  private notify() {
+    const snapshot = this.snapshot;
+    this.listeners.forEach((listener) => listener(snapshot));
+  }
+}
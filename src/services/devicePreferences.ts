@@ -0,0 +1,46 @@
+// The camera and microphone picked in the recorder, kept in localStorage. Device ids are only
+// meaningful to the browser profile that issued them, so the choice is remembered per browser.
+
+const STORAGE_KEY = 'fixify-media-devices';
+
+export type FacingMode = 'user' | 'environment';
+
+export interface DevicePreferences {
+  // An explicitly picked camera wins over the facing mode
+  cameraId?: string;
+  microphoneId?: string;
+  facingMode?: FacingMode;
+  // Preview mirroring the user set by hand, by camera id; other cameras follow their facing mode
+  mirroredCameras?: Record<string, boolean>;
+}
+
+const read = (): DevicePreferences => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const parsed = raw ? JSON.parse(raw) : {};
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    return {};
+  }
+};
+
+const write = (preferences: DevicePreferences) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(preferences));
+  } catch (error) {
+    console.error('Failed to persist device preferences:', error);
+  }
+};
+
+export const devicePreferences = {
+  get(): DevicePreferences {
+    return read();
+  },
+
+  // Returns the updated preferences; undefined values clear a choice
+  update(update: Partial<DevicePreferences>): DevicePreferences {
+    const next = { ...read(), ...update };
+    write(next);
+    return next;
+  },
+};
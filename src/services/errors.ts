@@ -0,0 +1,149 @@
+export type ApiErrorCode =
+  | 'NETWORK_ERROR'
+  | 'TIMEOUT'
+  | 'PAYLOAD_TOO_LARGE'
+  | 'UNSUPPORTED_FORMAT'
+  | 'SERVER_ERROR'
+  | 'ANALYSIS_FAILED'
+  | 'AUTH_REQUIRED'
+  | 'CONTRACT_VIOLATION'
+  | 'BAD_REQUEST'
+  | 'UPLOAD_CANCELLED'
+  | 'CIRCUIT_OPEN'
+  | 'UNKNOWN';
+
+interface ApiErrorOptions {
+  status?: number;
+  retryable?: boolean;
+  cause?: unknown;
+}
+
+// Base class for everything ApiService throws, so callers can branch on `code` instead of message text.
+export class ApiError extends Error {
+  readonly code: ApiErrorCode;
+  readonly retryable: boolean;
+  readonly status?: number;
+  readonly cause?: unknown;
+
+  constructor(code: ApiErrorCode, message: string, options: ApiErrorOptions = {}) {
+    super(message);
+    this.name = 'ApiError';
+    this.code = code;
+    this.retryable = options.retryable ?? false;
+    this.status = options.status;
+    this.cause = options.cause;
+  }
+}
+
+export class NetworkError extends ApiError {
+  constructor(message = 'Unable to reach the analysis service. Check your internet connection.', options: ApiErrorOptions = {}) {
+    super('NETWORK_ERROR', message, { retryable: true, ...options });
+    this.name = 'NetworkError';
+  }
+}
+
+export class TimeoutError extends ApiError {
+  constructor(message = 'The request timed out before the server responded.', options: ApiErrorOptions = {}) {
+    super('TIMEOUT', message, { retryable: true, ...options });
+    this.name = 'TimeoutError';
+  }
+}
+
+export class PayloadTooLargeError extends ApiError {
+  constructor(message = 'The video is too large to upload.', options: ApiErrorOptions = {}) {
+    super('PAYLOAD_TOO_LARGE', message, { status: 413, ...options });
+    this.name = 'PayloadTooLargeError';
+  }
+}
+
+export class UnsupportedFormatError extends ApiError {
+  constructor(message = 'This video format is not supported.', options: ApiErrorOptions = {}) {
+    super('UNSUPPORTED_FORMAT', message, { status: 415, ...options });
+    this.name = 'UnsupportedFormatError';
+  }
+}
+
+export class ServerError extends ApiError {
+  constructor(message = 'The analysis service ran into a problem.', options: ApiErrorOptions = {}) {
+    super('SERVER_ERROR', message, { retryable: true, ...options });
+    this.name = 'ServerError';
+  }
+}
+
+export class AnalysisFailedError extends ApiError {
+  constructor(message = 'The video was uploaded but could not be analyzed.', options: ApiErrorOptions = {}) {
+    super('ANALYSIS_FAILED', message, { retryable: true, ...options });
+    this.name = 'AnalysisFailedError';
+  }
+}
+
+export class AuthError extends ApiError {
+  constructor(message = 'Your session has expired. Please sign in again.', options: ApiErrorOptions = {}) {
+    super('AUTH_REQUIRED', message, options);
+    this.name = 'AuthError';
+  }
+}
+
+// The backend answered, but not in the shape this client understands (e.g. after a backend deploy).
+export class ContractViolationError extends ApiError {
+  readonly endpoint: string;
+  readonly issues: string[];
+
+  constructor(endpoint: string, issues: string[]) {
+    super('CONTRACT_VIOLATION', 'The analysis service returned a response this app does not understand.');
+    this.name = 'ContractViolationError';
+    this.endpoint = endpoint;
+    this.issues = issues;
+  }
+}
+
+export class UploadCancelledError extends ApiError {
+  constructor(message = 'Upload cancelled') {
+    super('UPLOAD_CANCELLED', message);
+    this.name = 'UploadCancelledError';
+  }
+}
+
+// Thrown without contacting the backend while the circuit breaker is open (see circuitBreaker.ts).
+export class CircuitOpenError extends ApiError {
+  readonly retryAt: number;
+
+  constructor(retryAt: number) {
+    super('CIRCUIT_OPEN', 'Requests to the analysis service are paused after repeated failures.');
+    this.name = 'CircuitOpenError';
+    this.retryAt = retryAt;
+  }
+}
+
+export const isApiError = (error: unknown): error is ApiError => error instanceof ApiError;
+
+// Maps a non-2xx response (and the JSON body the backend sent with it, if any) onto the taxonomy.
+export const errorFromResponse = (status: number, body: { message?: string; code?: string } = {}): ApiError => {
+  const message = body.message;
+
+  if (status === 401 || status === 403) return new AuthError(message, { status });
+  if (status === 408 || status === 504) return new TimeoutError(message, { status });
+  if (status === 413) return new PayloadTooLargeError(message, { status });
+  if (status === 415) return new UnsupportedFormatError(message, { status });
+  if (status === 422) return new AnalysisFailedError(message, { status });
+  if (status >= 500) return new ServerError(message, { status });
+  return new ApiError('BAD_REQUEST', message || `Request failed with status ${status}`, { status });
+};
+
+// Normalises whatever fetch or our own code threw into an ApiError.
+export const toApiError = (error: unknown): ApiError => {
+  if (error instanceof ApiError) return error;
+
+  if (error instanceof Error) {
+    if (error.name === 'AbortError' || error.name === 'TimeoutError') {
+      return new TimeoutError(undefined, { cause: error });
+    }
+    // fetch rejects with a TypeError when the request never reached the server
+    if (error instanceof TypeError) {
+      return new NetworkError(undefined, { cause: error });
+    }
+    return new ApiError('UNKNOWN', error.message, { cause: error });
+  }
+
+  return new ApiError('UNKNOWN', 'An unexpected error occurred', { cause: error });
+};
@@ -0,0 +1,132 @@
+import type { StructuredAnalysis } from './schemas';
+
+// Canned analyses served by the mock backend, picked by keywords in the report description.
+
+interface CannedAnalysis {
+  keywords: RegExp;
+  analysis: string;
+  structured: StructuredAnalysis;
+}
+
+const CANNED_ANALYSES: CannedAnalysis[] = [
+  {
+    keywords: /leak|drip|faucet|tap|pipe|sink|toilet|water/i,
+    analysis: `## Summary
+A slow leak is visible at the connection under the sink. Water is pooling on the cabinet floor.
+
+## Likely Cause
+- Worn washer or O-ring in the compression fitting
+- Loose slip nut on the P-trap
+
+## Recommended Action
+1. Turn off the shut-off valves under the sink.
+2. Hand-tighten the slip nut, then a quarter turn with pliers.
+3. If the drip continues, replace the washer (a few dollars at any hardware store).
+
+**Urgency:** Moderate. Fix within a week to avoid damage to the cabinet base.
+
+**Trade:** Plumber, if the shut-off valves themselves are leaking.`,
+    structured: {
+      category: 'Plumbing leak',
+      severity: 'medium',
+      urgency: 'soon',
+      trade: 'plumber',
+      probableCause: 'A worn washer in the compression fitting or a loose slip nut on the P-trap.',
+      parts: [
+        { name: 'Compression washer / O-ring kit', quantity: 1 },
+        { name: 'PTFE thread tape', quantity: 1, notes: 'For the threaded joints' },
+      ],
+      diySteps: [
+        { instruction: 'Turn off both shut-off valves under the sink and open the tap to drain the line.' },
+        { instruction: 'Hand-tighten the slip nut, then give it a quarter turn with pliers.', safetyWarning: 'Overtightening can crack plastic fittings.' },
+        { instruction: 'If the drip continues, undo the fitting and replace the washer.' },
+      ],
+      safetyWarnings: ['Dry the cabinet floor fully to prevent mould.'],
+      costEstimate: { min: 5, max: 150, currency: 'USD' },
+    },
+  },
+  {
+    keywords: /door|cabinet|hinge|drawer|wood|floor|shelf/i,
+    analysis: `## Summary
+The cabinet door is sagging and no longer closes flush with the frame.
+
+## Likely Cause
+- Hinge screws have stripped the particle board
+- Hinge adjustment screw has backed out
+
+## Recommended Action
+1. Tighten the hinge adjustment screws and check the alignment.
+2. If screws spin freely, fill the holes with wood glue and toothpicks, then re-drive them.
+
+**Urgency:** Low. Cosmetic, but worth fixing before the hinge tears out.
+
+**Trade:** Carpenter or handyman if the panel is cracked.`,
+    structured: {
+      category: 'Cabinetry',
+      severity: 'low',
+      urgency: 'routine',
+      trade: 'carpenter',
+      probableCause: 'Hinge screws have stripped the particle board or the adjustment screw has backed out.',
+      parts: [
+        { name: 'Wood glue', quantity: 1 },
+        { name: 'Wooden toothpicks or dowels', notes: 'To fill stripped screw holes' },
+      ],
+      diySteps: [
+        { instruction: 'Tighten the hinge adjustment screws and check the door alignment.' },
+        { instruction: 'If a screw spins freely, fill the hole with glue and toothpicks and let it set for an hour.' },
+        { instruction: 'Re-drive the screw and adjust the hinge until the door closes flush.' },
+      ],
+      safetyWarnings: [],
+      costEstimate: { min: 0, max: 80, currency: 'USD' },
+    },
+  },
+  {
+    keywords: /outlet|switch|light|spark|breaker|wire|electric/i,
+    analysis: `## Summary
+The outlet shows scorch marks around one slot and the cover plate is warm.
+
+## Likely Cause
+- Loose terminal screw causing arcing
+- Overloaded circuit
+
+## Recommended Action
+1. **Stop using the outlet** and switch off its breaker.
+2. Do not attempt a DIY repair while the cause is unknown.
+
+**Urgency:** High. This is a fire risk.
+
+**Trade:** Licensed electrician.`,
+    structured: {
+      category: 'Electrical fault',
+      severity: 'critical',
+      urgency: 'emergency',
+      trade: 'electrician',
+      probableCause: 'A loose terminal screw is arcing inside the outlet, or the circuit is overloaded.',
+      parts: [{ name: 'Replacement outlet (tamper-resistant)', quantity: 1, notes: 'Fitted by the electrician' }],
+      diySteps: [
+        { instruction: 'Unplug everything from the outlet.', safetyWarning: 'Do not touch the cover plate if it is hot.' },
+        { instruction: 'Switch off the breaker for this circuit and label it.' },
+      ],
+      safetyWarnings: ['Fire risk: do not use the outlet until it has been inspected.', 'Do not open the outlet yourself.'],
+      costEstimate: { min: 120, max: 350, currency: 'USD' },
+    },
+  },
+];
+
+const GENERIC_ANALYSIS = `## Summary
+The video shows the problem area clearly, but the issue could not be narrowed to a single cause.
+
+## Recommended Action
+1. Take a closer, well-lit recording of the affected area.
+2. Describe when the problem started and whether it is getting worse.
+
+**Urgency:** Unknown.`;
+
+// The generic analysis has no structured part, like a backend that only returns text
+export const pickCannedAnalysis = (description: string): { analysis: string; structured?: StructuredAnalysis } => {
+  const match = CANNED_ANALYSES.find(({ keywords }) => keywords.test(description));
+  return {
+    analysis: `${match ? match.analysis : GENERIC_ANALYSIS}\n\n_This is a canned analysis from the mock backend._`,
+    structured: match?.structured,
+  };
+};
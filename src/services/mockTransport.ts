@@ -0,0 +1,302 @@
+import { pickCannedAnalysis } from './mockAnalyses';
+import { Transport } from './transport';
+
+// In-browser stand-in for the backend, so the whole record → upload → analyze flow works offline.
+// Enabled with VITE_MOCK_API=true or ?mock=1 (see lib/config.ts) and tuned with:
+//
+//   VITE_MOCK_LATENCY_MS        / ?mockLatency=800        average latency per request (±50% jitter)
+//   VITE_MOCK_FAILURE_RATE      / ?mockFailureRate=0.2    chance that any request fails (network error or 503)
+//   VITE_MOCK_JOB_DURATION_MS   / ?mockJobMs=8000         how long an analysis job takes
+//
+// Implements the same endpoints as the real backend: tus uploads, analysis jobs (polled and streamed),
+// reports, test-gemini and health. Jobs (and so reports) are kept in localStorage, like a real backend
+// would keep them across reloads; uploads are not.
+
+export interface MockTransportOptions {
+  latencyMs: number;
+  failureRate: number;
+  jobDurationMs: number;
+}
+
+interface MockUpload {
+  length: number;
+  offset: number;
+  metadata: Record<string, string>;
+}
+
+interface MockJob {
+  reportId: string;
+  upload: MockUpload;
+  description: string;
+  createdAt: number;
+}
+
+const JOBS_STORAGE_KEY = 'fixify-mock-jobs';
+
+const DEFAULT_OPTIONS: MockTransportOptions = {
+  latencyMs: 400,
+  failureRate: 0,
+  jobDurationMs: 8000,
+};
+
+const readNumber = (param: string, envValue: string | undefined, fallback: number): number => {
+  const raw = new URLSearchParams(window.location.search).get(param) ?? envValue;
+  const value = raw === undefined || raw === '' ? NaN : Number(raw);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+};
+
+export const readMockOptions = (): MockTransportOptions => ({
+  latencyMs: readNumber('mockLatency', import.meta.env.VITE_MOCK_LATENCY_MS, DEFAULT_OPTIONS.latencyMs),
+  failureRate: Math.min(1, readNumber('mockFailureRate', import.meta.env.VITE_MOCK_FAILURE_RATE, DEFAULT_OPTIONS.failureRate)),
+  jobDurationMs: readNumber('mockJobMs', import.meta.env.VITE_MOCK_JOB_DURATION_MS, DEFAULT_OPTIONS.jobDurationMs),
+});
+
+const abortError = () => new DOMException('The operation was aborted.', 'AbortError');
+
+const delay = (ms: number, signal?: AbortSignal | null) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason ?? abortError());
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      reject(signal.reason ?? abortError());
+    };
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+const loadJobs = (): Map<string, MockJob> => {
+  try {
+    return new Map(JSON.parse(localStorage.getItem(JOBS_STORAGE_KEY) ?? '[]'));
+  } catch {
+    return new Map();
+  }
+};
+
+const saveJobs = (jobs: Map<string, MockJob>) => {
+  localStorage.setItem(JOBS_STORAGE_KEY, JSON.stringify([...jobs.entries()]));
+};
+
+const json = (status: number, body: unknown) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+const empty = (status: number, headers: Record<string, string> = {}) =>
+  new Response(null, { status, headers: { 'Tus-Resumable': '1.0.0', ...headers } });
+
+const decodeMetadata = (header: string | null): Record<string, string> => {
+  if (!header) return {};
+
+  return Object.fromEntries(
+    header.split(',').map((pair) => {
+      const [key, value = ''] = pair.trim().split(' ');
+      const bytes = Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+      return [key, new TextDecoder().decode(bytes)];
+    })
+  );
+};
+
+const bodySize = (body: BodyInit | null | undefined): number => {
+  if (body instanceof Blob) return body.size;
+  if (body instanceof ArrayBuffer) return body.byteLength;
+  if (typeof body === 'string') return new TextEncoder().encode(body).length;
+  return 0;
+};
+
+export const createMockTransport = (options: Partial<MockTransportOptions> = {}): Transport => {
+  const settings = { ...DEFAULT_OPTIONS, ...options };
+  const uploads = new Map<string, MockUpload>();
+  const jobs = loadJobs();
+  const startedAt = Date.now();
+
+  console.log('Using mock backend:', settings);
+
+  const jobSnapshot = (jobId: string, job: MockJob) => {
+    const elapsed = Date.now() - job.createdAt;
+    const status =
+      elapsed < settings.jobDurationMs / 4 ? 'queued' : elapsed < settings.jobDurationMs ? 'analyzing' : 'completed';
+
+    return {
+      jobId,
+      status,
+      updatedAt: new Date().toISOString(),
+      ...(status === 'completed' && {
+        result: {
+          originalName: job.upload.metadata.filename || 'video',
+          fileSize: job.upload.length,
+          fileSizeInMB: Number((job.upload.length / (1024 * 1024)).toFixed(2)),
+          ...pickCannedAnalysis(job.description),
+          analysisDate: new Date().toISOString(),
+        },
+      }),
+    };
+  };
+
+  const reportSnapshot = (jobId: string, job: MockJob) => {
+    const snapshot = jobSnapshot(jobId, job);
+    return {
+      id: job.reportId,
+      jobId,
+      description: job.description,
+      status: snapshot.status,
+      fileSize: job.upload.length,
+      submittedAt: new Date(job.createdAt).toISOString(),
+      analysis: snapshot.result?.analysis,
+      analysisDate: snapshot.result?.analysisDate,
+      structured: snapshot.result?.structured,
+    };
+  };
+
+  const findReport = (reportId: string) =>
+    [...jobs.entries()].find(([, job]) => job.reportId === reportId);
+
+  const streamJob = (jobId: string, job: MockJob, signal?: AbortSignal | null) => {
+    const encoder = new TextEncoder();
+    const words = pickCannedAnalysis(job.description).analysis.split(/(?<=\s)/);
+    const queuedFor = Math.max(0, settings.jobDurationMs / 4 - (Date.now() - job.createdAt));
+    const perWord = (settings.jobDurationMs * 0.75) / words.length;
+
+    const body = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        const send = (event: string, data: unknown) =>
+          controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+
+        try {
+          send('status', { status: 'queued' });
+          await delay(queuedFor, signal);
+          send('status', { status: 'analyzing' });
+
+          for (const word of words) {
+            await delay(perWord, signal);
+            send('delta', { text: word });
+          }
+
+          job.createdAt = Math.min(job.createdAt, Date.now() - settings.jobDurationMs);
+          send('done', jobSnapshot(jobId, job));
+          controller.close();
+        } catch (error) {
+          controller.error(error);
+        }
+      },
+    });
+
+    return new Response(body, { status: 200, headers: { 'Content-Type': 'text/event-stream' } });
+  };
+
+  const route = async (method: string, path: string, init: RequestInit): Promise<Response> => {
+    const headers = new Headers(init.headers);
+    let match: RegExpMatchArray | null;
+
+    if (method === 'POST' && path.endsWith('/uploads')) {
+      const id = crypto.randomUUID();
+      uploads.set(id, {
+        length: Number(headers.get('Upload-Length')),
+        offset: 0,
+        metadata: decodeMetadata(headers.get('Upload-Metadata')),
+      });
+      return empty(201, { Location: `${path}/${id}` });
+    }
+
+    if ((match = path.match(/\/uploads\/([\w-]+)$/))) {
+      const upload = uploads.get(match[1]);
+      if (!upload) return empty(404);
+
+      if (method === 'HEAD') {
+        return empty(200, { 'Upload-Offset': String(upload.offset), 'Upload-Length': String(upload.length) });
+      }
+
+      if (method === 'PATCH') {
+        if (Number(headers.get('Upload-Offset')) !== upload.offset) {
+          return empty(409, { 'Upload-Offset': String(upload.offset) });
+        }
+        upload.offset = Math.min(upload.length, upload.offset + bodySize(init.body));
+        return empty(204, { 'Upload-Offset': String(upload.offset) });
+      }
+    }
+
+    if (method === 'POST' && path.endsWith('/videos/analyze-upload')) {
+      // Answer malformed bodies the way the real server does
+      let request: unknown;
+      try {
+        request = JSON.parse(String(init.body ?? '{}'));
+      } catch {
+        return json(400, { success: false, message: 'Request body is not valid JSON' });
+      }
+      if (!request || typeof request !== 'object' || typeof (request as { uploadId?: unknown }).uploadId !== 'string') {
+        return json(400, { success: false, message: 'Request body must be an object with an uploadId' });
+      }
+
+      const { uploadId, description } = request as { uploadId: string; description: string };
+      const upload = uploads.get(uploadId);
+      if (!upload || upload.offset !== upload.length) {
+        return json(400, { success: false, message: 'Upload not found or incomplete' });
+      }
+
+      const jobId = crypto.randomUUID();
+      jobs.set(jobId, { reportId: crypto.randomUUID(), upload, description, createdAt: Date.now() });
+      saveJobs(jobs);
+      return json(202, { success: true, message: 'Analysis job queued', data: { jobId, status: 'queued' } });
+    }
+
+    if (method === 'GET' && (match = path.match(/\/jobs\/([\w-]+)(\/stream)?$/))) {
+      const job = jobs.get(match[1]);
+      if (!job) return json(404, { success: false, message: 'Job not found' });
+
+      return match[2] ? streamJob(match[1], job, init.signal) : json(200, { success: true, data: jobSnapshot(match[1], job) });
+    }
+
+    if (method === 'GET' && path.endsWith('/reports')) {
+      const reports = [...jobs.entries()]
+        .map(([jobId, job]) => reportSnapshot(jobId, job))
+        .sort((a, b) => b.submittedAt.localeCompare(a.submittedAt));
+      return json(200, { success: true, data: reports });
+    }
+
+    if ((match = path.match(/\/reports\/([\w-]+)$/))) {
+      const found = findReport(match[1]);
+      if (!found) return json(404, { success: false, message: 'Report not found' });
+
+      if (method === 'GET') {
+        return json(200, { success: true, data: reportSnapshot(...found) });
+      }
+
+      if (method === 'DELETE') {
+        jobs.delete(found[0]);
+        saveJobs(jobs);
+        return empty(204);
+      }
+    }
+
+    if (method === 'GET' && path.endsWith('/videos/test-gemini')) {
+      return json(200, { success: true, message: 'Gemini API is working (mock backend)' });
+    }
+
+    if (method === 'GET' && path.endsWith('/health')) {
+      return json(200, {
+        status: 'OK',
+        timestamp: new Date().toISOString(),
+        uptime: (Date.now() - startedAt) / 1000,
+      });
+    }
+
+    return json(404, { success: false, message: `Mock backend has no route for ${method} ${path}` });
+  };
+
+  return async (url, init = {}) => {
+    const method = (init.method ?? 'GET').toUpperCase();
+    const { pathname } = new URL(url, window.location.origin);
+
+    await delay(settings.latencyMs * (0.5 + Math.random()), init.signal);
+
+    if (Math.random() < settings.failureRate) {
+      console.log(`Mock backend: simulating a failure for ${method} ${pathname}`);
+      if (Math.random() < 0.5) {
+        throw new TypeError('Failed to fetch (simulated by mock backend)');
+      }
+      return json(503, { success: false, message: 'Service temporarily unavailable (simulated by mock backend)' });
+    }
+
+    return route(method, pathname, init);
+  };
+};
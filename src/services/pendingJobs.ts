@@ -0,0 +1,44 @@
+// Reports whose analysis job is still running, kept in localStorage so leaving the dashboard
+// (or reloading) mid-analysis does not lose them. Entries are removed once the job settles.
+
+const STORAGE_KEY = 'fixify-pending-jobs';
+
+export interface PendingJob {
+  reportId: string;
+  jobId: string;
+  description: string;
+  submittedAt: string;
+  videoSize: number;
+}
+
+const read = (): PendingJob[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
+
+const write = (jobs: PendingJob[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(jobs));
+  } catch (error) {
+    console.error('Failed to persist pending jobs:', error);
+  }
+};
+
+export const pendingJobs = {
+  list(): PendingJob[] {
+    return read();
+  },
+
+  save(job: PendingJob) {
+    write([...read().filter((existing) => existing.reportId !== job.reportId), job]);
+  },
+
+  remove(reportId: string) {
+    write(read().filter((job) => job.reportId !== reportId));
+  },
+};
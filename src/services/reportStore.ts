@@ -0,0 +1,191 @@
+import type { ReportStatus } from '@/lib/reportLifecycle';
+import type { Report } from './api';
+
+// Reports (with their analyses) and, optionally, the recordings they were made from, kept in
+// IndexedDB so the history survives reloads. Every schema change bumps DB_VERSION and adds a
+// migration; they run in order inside the upgrade transaction, so a browser several versions
+// behind catches up in one go.
+
+const DB_NAME = 'fixify';
+const DB_VERSION = 2;
+const REPORTS_STORE = 'reports';
+const VIDEOS_STORE = 'videos';
+const KEEP_VIDEOS_KEY = 'fixify-keep-videos';
+
+type Migration = (db: IDBDatabase, transaction: IDBTransaction) => void;
+
+const lifecycleStatusFor = (status: string, jobId?: string, jobStatus?: string): ReportStatus => {
+  if (status === 'completed') return 'analyzed';
+  if (status === 'reviewing') return 'failed';
+  if (!jobId) return 'uploading';
+  return jobStatus === 'analyzing' ? 'analyzing' : 'queued';
+};
+
+const MIGRATIONS: Record<number, Migration> = {
+  1: (db) => {
+    const reports = db.createObjectStore(REPORTS_STORE, { keyPath: 'id' });
+    reports.createIndex('submittedAt', 'submittedAt');
+    // Keyed by report id, kept apart so listing reports never loads the blobs
+    db.createObjectStore(VIDEOS_STORE);
+  },
+  // 'pending' | 'reviewing' | 'completed' became the lifecycle in lib/reportLifecycle.ts, which also
+  // replaced the separate jobStatus field
+  2: (_db, transaction) => {
+    const request = transaction.objectStore(REPORTS_STORE).openCursor();
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return;
+
+      const { jobStatus, ...report } = cursor.value;
+      cursor.update({ ...report, status: lifecycleStatusFor(report.status, report.jobId, jobStatus) });
+      cursor.continue();
+    };
+  },
+};
+
+interface StoredVideo {
+  blob: Blob;
+  savedAt: string;
+}
+
+export interface StorageUsage {
+  usageBytes: number;
+  quotaBytes: number;
+}
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  databasePromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available in this browser'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      const transaction = request.transaction;
+      for (let version = event.oldVersion + 1; version <= DB_VERSION; version++) {
+        console.log(`Migrating report store to version ${version}`);
+        MIGRATIONS[version](db, transaction);
+      }
+    };
+    request.onsuccess = () => {
+      const db = request.result;
+      // Another tab is upgrading the schema; step aside and reopen on next use
+      db.onversionchange = () => {
+        db.close();
+        databasePromise = null;
+      };
+      resolve(db);
+    };
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => console.log('Report store upgrade is waiting for other tabs to close');
+  }).catch((error) => {
+    databasePromise = null;
+    throw error;
+  });
+
+  return databasePromise;
+};
+
+// Runs `work` in one transaction and resolves with its result once the transaction has committed
+const withStores = async <T>(
+  storeNames: string[],
+  mode: IDBTransactionMode,
+  work: (transaction: IDBTransaction) => IDBRequest<T> | void
+): Promise<T> => {
+  const db = await openDatabase();
+
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(storeNames, mode);
+    const request = work(transaction);
+
+    transaction.oncomplete = () => resolve(request ? request.result : undefined);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('Report store transaction aborted'));
+  });
+};
+
+// Live streaming state only means something while this page is receiving the stream
+const toStoredReport = ({ analysisStreamState, ...report }: Report): Report =>
+  analysisStreamState === 'streaming' ? report : { ...report, analysisStreamState };
+
+export const reportStore = {
+  // Newest first
+  async list(): Promise<Report[]> {
+    const reports = await withStores<Report[]>([REPORTS_STORE], 'readonly', (transaction) =>
+      transaction.objectStore(REPORTS_STORE).getAll()
+    );
+    return reports.sort((a, b) => b.submittedAt.getTime() - a.submittedAt.getTime());
+  },
+
+  async get(reportId: string): Promise<Report | null> {
+    const report = await withStores<Report | undefined>([REPORTS_STORE], 'readonly', (transaction) =>
+      transaction.objectStore(REPORTS_STORE).get(reportId)
+    );
+    return report ?? null;
+  },
+
+  async save(reports: Report[]): Promise<void> {
+    if (reports.length === 0) return;
+    await withStores([REPORTS_STORE], 'readwrite', (transaction) => {
+      const store = transaction.objectStore(REPORTS_STORE);
+      reports.forEach((report) => store.put(toStoredReport(report)));
+    });
+  },
+
+  async remove(reportIds: string[]): Promise<void> {
+    if (reportIds.length === 0) return;
+    await withStores([REPORTS_STORE, VIDEOS_STORE], 'readwrite', (transaction) => {
+      reportIds.forEach((id) => {
+        transaction.objectStore(REPORTS_STORE).delete(id);
+        transaction.objectStore(VIDEOS_STORE).delete(id);
+      });
+    });
+  },
+
+  async saveVideo(reportId: string, blob: Blob): Promise<void> {
+    const video: StoredVideo = { blob, savedAt: new Date().toISOString() };
+    await withStores([VIDEOS_STORE], 'readwrite', (transaction) => {
+      transaction.objectStore(VIDEOS_STORE).put(video, reportId);
+    });
+  },
+
+  async getVideo(reportId: string): Promise<Blob | null> {
+    const video = await withStores<StoredVideo | undefined>([VIDEOS_STORE], 'readonly', (transaction) =>
+      transaction.objectStore(VIDEOS_STORE).get(reportId)
+    );
+    return video?.blob ?? null;
+  },
+
+  async removeVideo(reportId: string): Promise<void> {
+    await withStores([VIDEOS_STORE], 'readwrite', (transaction) => {
+      transaction.objectStore(VIDEOS_STORE).delete(reportId);
+    });
+  },
+
+  async clearVideos(): Promise<void> {
+    await withStores([VIDEOS_STORE], 'readwrite', (transaction) => {
+      transaction.objectStore(VIDEOS_STORE).clear();
+    });
+  },
+
+  // Whether new recordings are kept on the device next to their report
+  get keepVideos(): boolean {
+    return localStorage.getItem(KEEP_VIDEOS_KEY) !== 'false';
+  },
+
+  set keepVideos(keep: boolean) {
+    localStorage.setItem(KEEP_VIDEOS_KEY, String(keep));
+  },
+
+  // Everything this origin stores (IndexedDB, localStorage, caches), as estimated by the browser
+  async estimateUsage(): Promise<StorageUsage | null> {
+    if (!navigator.storage?.estimate) return null;
+    const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+    return { usageBytes: usage, quotaBytes: quota };
+  },
+};
@@ -0,0 +1,51 @@
+import { canTransition, isActiveStatus, reconcileReport } from '@/lib/reportLifecycle';
+import type { Report } from './api';
+
+// Folds the backend's report list into the history kept on this device. A local report is matched to
+// its server copy by the analysis job that created it; after that the server id is remembered, so a
+// report that disappears from the list was deleted elsewhere and is dropped here too. Reports the
+// server has never seen (still uploading, or failed before a job existed) are left alone.
+export const mergeServerReports = (local: Report[], server: Report[]): Report[] => {
+  const matched = new Set<string>();
+
+  const merged = local.flatMap((report): Report[] => {
+    const serverCopy = server.find(
+      (candidate) =>
+        (report.serverId && candidate.serverId === report.serverId) ||
+        (report.jobId && candidate.jobId === report.jobId)
+    );
+
+    if (!serverCopy) {
+      return report.serverId ? [] : [report];
+    }
+
+    matched.add(serverCopy.serverId);
+
+    // While this page is still uploading or streaming the report, its own state is the more current one
+    if (isActiveStatus(report.status) || report.analysisStreamState === 'streaming') {
+      return [{ ...report, serverId: serverCopy.serverId }];
+    }
+
+    // The server only tracks the analysis; repair progress is recorded on this device
+    const updated = reconcileReport(report, serverCopy.status);
+    // A report whose status cannot follow the server's keeps its own analysis, so the two stay consistent
+    if (updated.status !== serverCopy.status && !canTransition(serverCopy.status, updated.status)) {
+      return [{ ...report, serverId: serverCopy.serverId }];
+    }
+
+    return [
+      {
+        ...updated,
+        serverId: serverCopy.serverId,
+        description: serverCopy.description,
+        analysis: serverCopy.analysis ?? report.analysis,
+        analysisDate: serverCopy.analysisDate ?? report.analysisDate,
+        structured: serverCopy.structured ?? report.structured,
+      },
+    ];
+  });
+
+  const added = server.filter((report) => !matched.has(report.serverId));
+
+  return [...merged, ...added].sort((a, b) => b.submittedAt.getTime() - a.submittedAt.getTime());
+};
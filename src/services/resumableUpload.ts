@@ -0,0 +1,363 @@
+// Minimal client for the tus 1.0.0 resumable upload protocol (https://tus.io/protocols/resumable-upload).
+// Only the core protocol plus the "creation" extension is used, which is what the backend
+// and the local stand-in server (scripts/upload-server.js) implement.
+
+import { ApiError, errorFromResponse, TimeoutError, toApiError, UploadCancelledError } from './errors';
+import { backoffDelay, sleep } from './retry';
+import { fetchTransport, Transport } from './transport';
+
+const TUS_VERSION = '1.0.0';
+const DEFAULT_CHUNK_SIZE = 1024 * 1024; // 1 MB keeps each request short on mobile data
+const DEFAULT_REQUEST_TIMEOUT = 30000; // per request, not per upload
+const DEFAULT_RETRIES = 5; // per chunk; a successful chunk resets the count
+const RETRY_BASE_DELAY = 1000;
+const RETRY_MAX_DELAY = 15000;
+const STORAGE_PREFIX = 'fixify-upload:';
+const FINGERPRINT_SAMPLE_SIZE = 64 * 1024;
+
+export interface ResumableUploadOptions {
+  endpoint: string;
+  metadata?: Record<string, string>;
+  chunkSize?: number;
+  requestTimeout?: number;
+  // How often a failed chunk is re-sent (after re-syncing the offset) before the upload gives up
+  retries?: number;
+  // Where upload URLs are remembered so a reload can resume; pass null to disable.
+  storage?: Storage | null;
+  onProgress?: (bytesUploaded: number, bytesTotal: number) => void;
+  transport?: Transport;
+}
+
+interface StoredUpload {
+  uploadUrl: string;
+  size: number;
+  createdAt: string;
+}
+
+const encodeMetadata = (metadata: Record<string, string>): string => {
+  return Object.entries(metadata)
+    .map(([key, value]) => {
+      const bytes = new TextEncoder().encode(value);
+      let binary = '';
+      bytes.forEach((byte) => {
+        binary += String.fromCharCode(byte);
+      });
+      return `${key} ${btoa(binary)}`;
+    })
+    .join(',');
+};
+
+// Identifies the same recording across page reloads without hashing the whole blob.
+const fingerprint = async (file: Blob, metadata: Record<string, string>): Promise<string> => {
+  const base = `${file.size}:${file.type}:${metadata.description ?? ''}`;
+
+  if (typeof crypto === 'undefined' || !crypto.subtle) {
+    return base;
+  }
+
+  const sample = await file.slice(0, FINGERPRINT_SAMPLE_SIZE).arrayBuffer();
+  const digest = await crypto.subtle.digest('SHA-256', sample);
+  const hash = Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+
+  return `${base}:${hash}`;
+};
+
+export class ResumableUpload {
+  private file: Blob;
+  private options: Required<Omit<ResumableUploadOptions, 'storage' | 'onProgress'>> &
+    Pick<ResumableUploadOptions, 'onProgress'> & { storage: Storage | null };
+  private uploadUrl: string | null = null;
+  private storageKey: string | null = null;
+  private paused = false;
+  private cancelled = false;
+  // Set by stop(): cancelled, but the upload URL is kept so a later attempt resumes from the server's offset
+  private keepStoredUpload = false;
+  private resumeWaiters: Array<() => void> = [];
+  private activeRequest: { controller: AbortController; interruptible: boolean } | null = null;
+  private retryController: AbortController | null = null;
+
+  constructor(file: Blob, options: ResumableUploadOptions) {
+    this.file = file;
+    this.options = {
+      metadata: {},
+      chunkSize: DEFAULT_CHUNK_SIZE,
+      requestTimeout: DEFAULT_REQUEST_TIMEOUT,
+      retries: DEFAULT_RETRIES,
+      storage: typeof window !== 'undefined' ? window.localStorage : null,
+      transport: fetchTransport,
+      ...options,
+    };
+  }
+
+  get isPaused(): boolean {
+    return this.paused;
+  }
+
+  // Stops sending chunks; the chunk in flight is dropped and re-sent from the server's offset on resume.
+  pause() {
+    if (this.paused || this.cancelled) return;
+    this.paused = true;
+    if (this.activeRequest?.interruptible) {
+      this.activeRequest.controller.abort();
+    }
+  }
+
+  resume() {
+    if (!this.paused) return;
+    this.paused = false;
+    this.flushResumeWaiters();
+  }
+
+  // Abandons the upload for now; start() rejects with UploadCancelledError, but uploading the same
+  // file again picks up where this attempt left off.
+  stop() {
+    this.keepStoredUpload = true;
+    this.cancel();
+  }
+
+  // Abandons the upload for good; start() rejects with UploadCancelledError and nothing is kept for resuming.
+  cancel() {
+    if (this.cancelled) return;
+    this.cancelled = true;
+    this.activeRequest?.controller.abort();
+    this.retryController?.abort();
+    this.flushResumeWaiters();
+  }
+
+  // Uploads the file, resuming a previous attempt when one is known, and resolves with the upload URL.
+  async start(): Promise<string> {
+    try {
+      return await this.run();
+    } catch (error) {
+      if (this.cancelled) {
+        if (!this.keepStoredUpload) this.clearStoredUpload();
+        throw new UploadCancelledError();
+      }
+      throw error;
+    }
+  }
+
+  private async run(): Promise<string> {
+    this.storageKey = STORAGE_PREFIX + (await fingerprint(this.file, this.options.metadata));
+
+    let offset = 0;
+    const previous = this.readStoredUpload();
+
+    if (previous) {
+      try {
+        offset = await this.fetchOffset(previous.uploadUrl);
+        this.uploadUrl = previous.uploadUrl;
+        console.log('Resuming upload at offset', offset, 'of', this.file.size);
+      } catch (error) {
+        console.log('Previous upload could not be resumed, starting over:', error);
+        this.clearStoredUpload();
+      }
+    }
+
+    if (!this.uploadUrl) {
+      this.uploadUrl = await this.createUpload();
+      this.storeUpload(this.uploadUrl);
+    }
+
+    await this.uploadChunks(this.uploadUrl, offset);
+    this.clearStoredUpload();
+
+    return this.uploadUrl;
+  }
+
+  private async createUpload(): Promise<string> {
+    const response = await this.request(this.options.endpoint, {
+      method: 'POST',
+      headers: {
+        'Tus-Resumable': TUS_VERSION,
+        'Upload-Length': String(this.file.size),
+        'Upload-Metadata': encodeMetadata(this.options.metadata),
+      },
+    });
+
+    if (response.status !== 201) {
+      throw errorFromResponse(response.status, await this.readErrorBody(response));
+    }
+
+    const location = response.headers.get('Location');
+    if (!location) {
+      throw new ApiError('SERVER_ERROR', 'Upload server did not return a Location header', { retryable: true });
+    }
+
+    return new URL(location, this.options.endpoint).toString();
+  }
+
+  private async fetchOffset(uploadUrl: string): Promise<number> {
+    const response = await this.request(uploadUrl, {
+      method: 'HEAD',
+      headers: { 'Tus-Resumable': TUS_VERSION },
+    });
+
+    if (!response.ok) {
+      throw errorFromResponse(response.status);
+    }
+
+    return this.readOffset(response);
+  }
+
+  private async uploadChunks(uploadUrl: string, startOffset: number): Promise<void> {
+    let offset = startOffset;
+    let failures = 0;
+    let resync = false;
+    this.options.onProgress?.(offset, this.file.size);
+
+    while (offset < this.file.size) {
+      if (this.paused) {
+        await this.waitForResume();
+        resync = true;
+        continue;
+      }
+
+      try {
+        if (resync) {
+          offset = await this.fetchOffset(uploadUrl);
+          resync = false;
+          continue;
+        }
+
+        offset = await this.sendChunk(uploadUrl, offset);
+        failures = 0;
+      } catch (error) {
+        // A pause interrupts the chunk in flight; the loop re-syncs the offset once resumed
+        if (this.paused && !this.cancelled) {
+          resync = true;
+          continue;
+        }
+
+        const apiError = toApiError(error);
+        if (this.cancelled || !apiError.retryable || failures >= this.options.retries) {
+          throw apiError;
+        }
+
+        // Chunks can always be re-sent from the server's offset, so transient failures are retried in place
+        failures += 1;
+        const delayMs = backoffDelay(failures - 1, RETRY_BASE_DELAY, RETRY_MAX_DELAY);
+        console.log(`Chunk upload failed (${apiError.message}), retry ${failures} of ${this.options.retries} in ${delayMs} ms`);
+        await this.waitForRetry(delayMs);
+        resync = true;
+      }
+    }
+  }
+
+  // Sends the chunk starting at `offset` and resolves with the server's offset afterwards.
+  private async sendChunk(uploadUrl: string, offset: number): Promise<number> {
+    const chunk = this.file.slice(offset, offset + this.options.chunkSize);
+    const response = await this.request(
+      uploadUrl,
+      {
+        method: 'PATCH',
+        headers: {
+          'Tus-Resumable': TUS_VERSION,
+          'Upload-Offset': String(offset),
+          'Content-Type': 'application/offset+octet-stream',
+        },
+        body: chunk,
+      },
+      true
+    );
+
+    if (response.status === 409) {
+      // Server and client disagree on the offset (e.g. a chunk landed but its response was lost)
+      return this.fetchOffset(uploadUrl);
+    }
+
+    if (response.status !== 204) {
+      throw errorFromResponse(response.status, await this.readErrorBody(response));
+    }
+
+    const nextOffset = this.readOffset(response);
+    this.options.onProgress?.(nextOffset, this.file.size);
+    return nextOffset;
+  }
+
+  private async waitForRetry(ms: number): Promise<void> {
+    this.retryController = new AbortController();
+    try {
+      await sleep(ms, this.retryController.signal);
+    } finally {
+      this.retryController = null;
+    }
+  }
+
+  private waitForResume(): Promise<void> {
+    if (!this.paused || this.cancelled) return Promise.resolve();
+    return new Promise((resolve) => {
+      this.resumeWaiters.push(resolve);
+    });
+  }
+
+  private flushResumeWaiters() {
+    const waiters = this.resumeWaiters;
+    this.resumeWaiters = [];
+    waiters.forEach((resolve) => resolve());
+  }
+
+  private readOffset(response: Response): number {
+    const offset = Number(response.headers.get('Upload-Offset'));
+    if (!Number.isFinite(offset) || offset < 0) {
+      throw new ApiError('SERVER_ERROR', 'Upload server returned an invalid Upload-Offset header', { retryable: true });
+    }
+    return offset;
+  }
+
+  private async readErrorBody(response: Response): Promise<{ message?: string }> {
+    return response.json().catch(() => ({}));
+  }
+
+  private async request(url: string, init: RequestInit, interruptible = false): Promise<Response> {
+    if (this.cancelled) {
+      throw new UploadCancelledError();
+    }
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(new TimeoutError()), this.options.requestTimeout);
+    this.activeRequest = { controller, interruptible };
+
+    try {
+      return await this.options.transport(url, { ...init, signal: controller.signal });
+    } catch (error) {
+      if (this.cancelled) throw new UploadCancelledError();
+      // Interrupted by pause(); the chunk loop knows how to pick up from here
+      if (interruptible && this.paused) throw error;
+      throw toApiError(error);
+    } finally {
+      clearTimeout(timeoutId);
+      this.activeRequest = null;
+    }
+  }
+
+  private readStoredUpload(): StoredUpload | null {
+    if (!this.options.storage || !this.storageKey) return null;
+
+    try {
+      const raw = this.options.storage.getItem(this.storageKey);
+      const stored: StoredUpload | null = raw ? JSON.parse(raw) : null;
+      return stored && stored.size === this.file.size ? stored : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private storeUpload(uploadUrl: string) {
+    if (!this.options.storage || !this.storageKey) return;
+
+    const stored: StoredUpload = {
+      uploadUrl,
+      size: this.file.size,
+      createdAt: new Date().toISOString(),
+    };
+    this.options.storage.setItem(this.storageKey, JSON.stringify(stored));
+  }
+
+  private clearStoredUpload() {
+    if (!this.options.storage || !this.storageKey) return;
+    this.options.storage.removeItem(this.storageKey);
+  }
+}
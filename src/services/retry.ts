@@ -0,0 +1,49 @@
+import { ApiError, toApiError, UploadCancelledError } from './errors';
+
+export interface RetryOptions {
+  // Attempts after the first one
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  signal?: AbortSignal;
+  onRetry?: (attempt: number, delayMs: number, error: ApiError) => void;
+}
+
+export const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(new UploadCancelledError());
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      reject(new UploadCancelledError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+// "Full jitter": a random delay up to base * 2^attempt, so clients that failed together don't retry in lockstep.
+export const backoffDelay = (attempt: number, baseDelayMs: number, maxDelayMs: number): number =>
+  Math.round(Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** attempt));
+
+// Runs `operation` until it succeeds, throws a non-retryable error or runs out of retries.
+// Only use it for operations that are safe to repeat (idempotent requests, resumable chunks).
+export const withRetry = async <T>(operation: (attempt: number) => Promise<T>, options: RetryOptions): Promise<T> => {
+  const { retries, baseDelayMs, maxDelayMs, signal, onRetry } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await operation(attempt);
+    } catch (error) {
+      if (signal?.aborted) throw new UploadCancelledError();
+
+      const apiError = toApiError(error);
+      if (!apiError.retryable || attempt >= retries) throw apiError;
+
+      const delayMs = backoffDelay(attempt, baseDelayMs, maxDelayMs);
+      onRetry?.(attempt + 1, delayMs, apiError);
+      await sleep(delayMs, signal);
+    }
+  }
+};
@@ -0,0 +1,189 @@
+import { z } from 'zod';
+import { ContractViolationError } from './errors';
+
+// Runtime contracts for backend responses. Types are inferred from these, so the
+// TypeScript view of a response can never drift from what is actually checked.
+
+const isoDateString = z.string().refine((value) => !Number.isNaN(Date.parse(value)), {
+  message: 'Expected an ISO date string',
+});
+
+export const severitySchema = z.enum(['low', 'medium', 'high', 'critical']);
+export const urgencySchema = z.enum(['routine', 'soon', 'urgent', 'emergency']);
+
+export const structuredAnalysisSchema = z.object({
+  category: z.string().min(1),
+  severity: severitySchema,
+  urgency: urgencySchema,
+  // Free text rather than an enum, e.g. 'plumber', 'carpenter' or 'electrician'
+  trade: z.string().min(1),
+  probableCause: z.string().min(1),
+  parts: z
+    .array(
+      z.object({
+        name: z.string().min(1),
+        quantity: z.number().positive().optional(),
+        notes: z.string().optional(),
+      })
+    )
+    .default([]),
+  diySteps: z
+    .array(
+      z.object({
+        instruction: z.string().min(1),
+        safetyWarning: z.string().optional(),
+      })
+    )
+    .default([]),
+  // Warnings that apply to the whole job rather than one step
+  safetyWarnings: z.array(z.string()).default([]),
+  costEstimate: z
+    .object({
+      min: z.number().nonnegative(),
+      max: z.number().nonnegative(),
+      // ISO 4217 code; Intl.NumberFormat throws on anything that is not three letters
+      currency: z
+        .string()
+        .regex(/^[A-Za-z]{3}$/, 'must be a three-letter currency code')
+        .transform((code) => code.toUpperCase())
+        .default('USD'),
+    })
+    .refine((cost) => cost.min <= cost.max, { message: 'min must not exceed max' })
+    .optional()
+    // A garbled estimate is not worth losing the rest of the analysis over
+    .catch(undefined),
+});
+
+// A malformed structured analysis must not cost the user the text analysis that came with it
+const optionalStructuredAnalysis = structuredAnalysisSchema.optional().catch(({ error }) => {
+  console.warn('Ignoring malformed structured analysis:', formatIssues(error));
+  return undefined;
+});
+
+const JSON_BLOCK = /```json\s*\n([\s\S]*?)\n```/;
+
+// Older backends (and Gemini, when it ignores the response schema) put the structured analysis in a
+// ```json block inside the text instead of the `structured` field. Lift it out when it is valid.
+const extractStructuredAnalysis = <T extends { analysis?: string; structured?: StructuredAnalysis }>(data: T): T => {
+  if (data.structured || !data.analysis) return data;
+
+  const match = data.analysis.match(JSON_BLOCK);
+  if (!match) return data;
+
+  try {
+    const result = structuredAnalysisSchema.safeParse(JSON.parse(match[1]));
+    if (!result.success) return data;
+    return {
+      ...data,
+      structured: result.data,
+      analysis: data.analysis.replace(match[0], '').replace(/\n{3,}/g, '\n\n').trim() || result.data.probableCause,
+    };
+  } catch {
+    return data;
+  }
+};
+
+export const videoAnalysisDataSchema = z
+  .object({
+    originalName: z.string(),
+    fileSize: z.number().nonnegative(),
+    fileSizeInMB: z.number().nonnegative(),
+    analysis: z.string().min(1),
+    analysisDate: isoDateString,
+    structured: optionalStructuredAnalysis,
+  })
+  .transform(extractStructuredAnalysis);
+
+const videoAnalysisSuccessSchema = z.object({
+  success: z.literal(true),
+  message: z.string(),
+  data: videoAnalysisDataSchema,
+});
+
+export const analysisJobStatusSchema = z.enum(['queued', 'analyzing', 'completed', 'failed']);
+
+export const analysisJobSchema = z
+  .object({
+    jobId: z.string().min(1),
+    status: analysisJobStatusSchema,
+    result: videoAnalysisDataSchema.optional(),
+    error: z.string().optional(),
+    updatedAt: z.string().optional(),
+  })
+  .refine((job) => job.status !== 'completed' || job.result, {
+    message: 'Completed jobs must include a result',
+    path: ['result'],
+  });
+
+// Both submitting a job (202) and polling it (200) answer with the job wrapped in the usual envelope
+export const analysisJobResponseSchema = z.object({
+  success: z.boolean(),
+  message: z.string().optional(),
+  data: analysisJobSchema,
+});
+
+// The backend keeps one report per analysis job, so a report can be matched to the job that created it
+export const serverReportSchema = z
+  .object({
+    id: z.string().min(1),
+    jobId: z.string().min(1),
+    description: z.string(),
+    status: analysisJobStatusSchema,
+    fileSize: z.number().nonnegative(),
+    submittedAt: isoDateString,
+    analysis: z.string().optional(),
+    analysisDate: isoDateString.optional(),
+    structured: optionalStructuredAnalysis,
+  })
+  .transform(extractStructuredAnalysis);
+
+export const reportListResponseSchema = z.object({
+  success: z.boolean(),
+  data: z.array(serverReportSchema),
+});
+
+export const reportResponseSchema = z.object({
+  success: z.boolean(),
+  data: serverReportSchema,
+});
+
+export const testGeminiResponseSchema = z
+  .object({
+    success: z.boolean(),
+    message: z.string().optional(),
+  })
+  .passthrough();
+
+export const healthResponseSchema = z
+  .object({
+    status: z.string(),
+    timestamp: z.string().optional(),
+    uptime: z.number().optional(),
+  })
+  .passthrough();
+
+export type VideoAnalysisResponse = z.infer<typeof videoAnalysisSuccessSchema>;
+export type StructuredAnalysis = z.infer<typeof structuredAnalysisSchema>;
+export type Severity = z.infer<typeof severitySchema>;
+export type Urgency = z.infer<typeof urgencySchema>;
+export type AnalysisJobStatus = z.infer<typeof analysisJobStatusSchema>;
+export type AnalysisJob = z.infer<typeof analysisJobSchema>;
+export type ServerReport = z.infer<typeof serverReportSchema>;
+export type TestGeminiResponse = z.infer<typeof testGeminiResponseSchema>;
+export type HealthResponse = z.infer<typeof healthResponseSchema>;
+
+const formatIssues = (error: z.ZodError): string[] =>
+  error.issues.map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+
+// Validates `data` against `schema`, throwing a ContractViolationError that names the endpoint and the offending fields.
+export const parseResponse = <T extends z.ZodTypeAny>(schema: T, data: unknown, endpoint: string): z.infer<T> => {
+  const result = schema.safeParse(data);
+
+  if (!result.success) {
+    const issues = formatIssues(result.error);
+    console.error(`Response from ${endpoint} violated its contract:`, issues, data);
+    throw new ContractViolationError(endpoint, issues);
+  }
+
+  return result.data;
+};
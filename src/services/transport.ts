@@ -0,0 +1,5 @@
+// Everything ApiService sends goes through a Transport, so the network can be swapped out
+// (see mockTransport.ts) without touching the request logic.
+export type Transport = (url: string, init?: RequestInit) => Promise<Response>;
+
+export const fetchTransport: Transport = (url, init) => fetch(url, init);
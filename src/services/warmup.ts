@@ -0,0 +1,132 @@
+import { ServerError, UploadCancelledError } from './errors';
+import { sleep } from './retry';
+
+// The backend runs on Render's free plan, which spins the service down after ~15 minutes without
+// traffic. The first request after that is held (or answered with 502/503) for up to a minute while
+// it boots. This tells such a cold start apart from a real outage by pinging /health on app load:
+//
+//   checking     first ping in flight
+//   warming      the ping is slow or failing (5xx, network error), but we are still inside the warm-up window
+//   ready        the service answered
+//   unavailable  offline, or still down after WARMUP_TIMEOUT; a later submission starts a new attempt
+
+export type WarmupState = 'checking' | 'warming' | 'ready' | 'unavailable';
+
+export interface WarmupStatus {
+  state: WarmupState;
+  startedAt: number | null;
+  // Best guess at when a cold start finishes (epoch ms); null unless warming
+  estimatedReadyAt: number | null;
+  reason?: 'offline' | 'timeout';
+}
+
+// Resolves true once the service answered at all (even with a 4xx), false on a 5xx; rejects on network errors
+export type HealthPing = (signal: AbortSignal) => Promise<boolean>;
+
+type WarmupListener = (status: WarmupStatus) => void;
+
+const SLOW_RESPONSE_MS = 3000; // a warm service answers /health well within this
+const COLD_START_ESTIMATE_MS = 50000; // Render quotes "50 seconds or more" for free instances
+const WARMUP_TIMEOUT_MS = 2 * 60 * 1000;
+const PING_TIMEOUT_MS = 20000;
+const PING_INTERVAL_MS = 3000;
+
+export class BackendWarmup {
+  private ping: HealthPing;
+  private status: WarmupStatus = { state: 'checking', startedAt: null, estimatedReadyAt: null };
+  private running: Promise<void> | null = null;
+  private listeners = new Set<WarmupListener>();
+
+  constructor(ping: HealthPing) {
+    this.ping = ping;
+  }
+
+  get snapshot(): WarmupStatus {
+    return this.status;
+  }
+
+  subscribe(listener: WarmupListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Starts pinging unless a warm-up is already running or the service is known to be up.
+  start(): Promise<void> {
+    if (this.status.state === 'ready') return Promise.resolve();
+    this.running ??= this.run().finally(() => {
+      this.running = null;
+    });
+    return this.running;
+  }
+
+  // Resolves once the service is up, starting a new warm-up if needed; rejects if it stays down.
+  async whenReady(signal?: AbortSignal): Promise<void> {
+    if (this.status.state === 'ready') return;
+
+    await new Promise<void>((resolve, reject) => {
+      if (signal?.aborted) return reject(new UploadCancelledError());
+      const onAbort = () => reject(new UploadCancelledError());
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      this.start()
+        .then(() => {
+          if (this.status.state === 'ready') {
+            resolve();
+          } else {
+            reject(new ServerError('The analysis service is not responding. Please try again later.'));
+          }
+        })
+        .finally(() => signal?.removeEventListener('abort', onAbort));
+    });
+  }
+
+  private async run(): Promise<void> {
+    const startedAt = Date.now();
+    this.update({ state: 'checking', startedAt, estimatedReadyAt: null });
+
+    if (typeof navigator !== 'undefined' && navigator.onLine === false) {
+      this.update({ state: 'unavailable', startedAt, estimatedReadyAt: null, reason: 'offline' });
+      return;
+    }
+
+    const markWarming = () => {
+      if (this.status.state !== 'checking') return;
+      console.log('Backend is slow to answer; assuming a cold start');
+      this.update({ state: 'warming', startedAt, estimatedReadyAt: startedAt + COLD_START_ESTIMATE_MS });
+    };
+    const slowTimer = setTimeout(markWarming, SLOW_RESPONSE_MS);
+
+    try {
+      while (Date.now() - startedAt < WARMUP_TIMEOUT_MS) {
+        const controller = new AbortController();
+        const timeoutId = setTimeout(() => controller.abort(), PING_TIMEOUT_MS);
+
+        try {
+          if (await this.ping(controller.signal)) {
+            console.log(`Backend ready after ${Date.now() - startedAt} ms`);
+            this.update({ state: 'ready', startedAt, estimatedReadyAt: null });
+            return;
+          }
+        } catch (error) {
+          console.log('Health ping failed:', error);
+        } finally {
+          clearTimeout(timeoutId);
+        }
+
+        markWarming();
+        await sleep(PING_INTERVAL_MS);
+      }
+
+      this.update({ state: 'unavailable', startedAt, estimatedReadyAt: null, reason: 'timeout' });
+    } finally {
+      clearTimeout(slowTimer);
+    }
+  }
+
+  private update(status: WarmupStatus) {
+    this.status = status;
+    this.listeners.forEach((listener) => listener(status));
+  }
+}
@@ -1 +1,20 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_API_URL?: string;
+  readonly VITE_HEALTH_URL?: string;
+  readonly VITE_REQUEST_TIMEOUT_MS?: string;
+  readonly VITE_ANALYSIS_TIMEOUT_MS?: string;
+  readonly VITE_UPLOAD_CHUNK_SIZE_BYTES?: string;
+  readonly VITE_MAX_UPLOAD_MB?: string;
+  readonly VITE_MAX_RECORDING_SECONDS?: string;
+  readonly VITE_UPLOAD_CONTAINER?: string;
+  readonly VITE_MOCK_API?: string;
+  readonly VITE_MOCK_LATENCY_MS?: string;
+  readonly VITE_MOCK_FAILURE_RATE?: string;
+  readonly VITE_MOCK_JOB_DURATION_MS?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}